@@ -0,0 +1,75 @@
+// TUS chunk size bounds. Sizes are kept to multiples of 256 KiB, which
+// storage-backed TUS servers (GCS resumable uploads) require.
+export const INITIAL_CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+const MIN_CHUNK_SIZE = 1024 * 1024; // 1MB
+const MAX_CHUNK_SIZE = 32 * 1024 * 1024; // 32MB - one chunk per part is held in memory
+const CHUNK_ALIGNMENT = 256 * 1024;
+
+// Size chunks to take about this long: long enough that per-request
+// overhead doesn't matter, short enough that a retry is cheap
+const TARGET_CHUNK_SECONDS = 10;
+// Weight of the newest measurement in the smoothed throughput
+const THROUGHPUT_SMOOTHING = 0.3;
+// Recent chunk outcomes the error rate is computed over
+const ERROR_WINDOW = 10;
+// Chunks stop growing while more than this share of recent chunks failed
+const MAX_ERROR_RATE_TO_GROW = 0.1;
+
+function clampChunkSize(size: number): number {
+  const aligned = Math.round(size / CHUNK_ALIGNMENT) * CHUNK_ALIGNMENT;
+  return Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, aligned));
+}
+
+/**
+ * Picks the TUS chunk size from measured throughput and error rate
+ * Each chunk that goes through updates the smoothed throughput, and the next
+ * chunk is sized to take about TARGET_CHUNK_SECONDS (at most double or half
+ * the previous size). A failed chunk halves the size, so slow or flaky links
+ * retry small chunks rather than large ones.
+ */
+export class ChunkSizer {
+  private size = INITIAL_CHUNK_SIZE;
+  private throughput: number | null = null;
+  private outcomes: boolean[] = [];
+
+  get chunkSize(): number {
+    return this.size;
+  }
+
+  // Smoothed upload speed, once a chunk has gone through
+  get bytesPerSecond(): number | undefined {
+    return this.throughput ?? undefined;
+  }
+
+  get errorRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter((ok) => !ok).length / this.outcomes.length;
+  }
+
+  recordSuccess(bytes: number, durationMs: number): void {
+    this.recordOutcome(true);
+
+    const measured = (bytes / Math.max(durationMs, 1)) * 1000;
+    this.throughput = this.throughput === null
+      ? measured
+      : this.throughput + THROUGHPUT_SMOOTHING * (measured - this.throughput);
+
+    let next = Math.min(this.throughput * TARGET_CHUNK_SECONDS, this.size * 2);
+    if (this.errorRate > MAX_ERROR_RATE_TO_GROW) {
+      next = Math.min(next, this.size);
+    }
+    this.size = clampChunkSize(Math.max(next, this.size / 2));
+  }
+
+  recordFailure(): void {
+    this.recordOutcome(false);
+    this.size = clampChunkSize(this.size / 2);
+  }
+
+  private recordOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > ERROR_WINDOW) {
+      this.outcomes.shift();
+    }
+  }
+}
@@ -7,6 +7,8 @@ import type {
   MeResponse,
   LogoutResponse,
   User,
+  AuthTokens,
+  AuthCredentials,
   PlansResponse,
   PackagesResponse,
   BalanceResponse,
@@ -15,10 +17,36 @@ import type {
   CompleteTelegramLinkPayload,
   AccountLinkResponse,
   LinkedAccountsStatusResponse,
+  LectureListParams,
+  LecturesResponse,
+  LectureResponse,
+  LectureSearchParams,
+  LectureSearchResponse,
+  LectureSummaryResponse,
+  LectureTranscriptResponse,
+  LectureQuestionPayload,
+  LectureAnswerResponse,
 } from "./types.js";
 
+// How long a finished token refresh is remembered, so requests still holding
+// the old refresh token reuse the result instead of refreshing again
+const REFRESH_RESULT_TTL_MS = 60 * 1000;
+
+// Error codes the backend uses for invalid or expired access tokens
+const AUTH_EXPIRED_CODES = ["TOKEN_EXPIRED", "INVALID_TOKEN", "UNAUTHORIZED"];
+
+/**
+ * Check if a response means the access token is no longer accepted
+ */
+export function isAuthExpired(statusCode: number, errorCode?: string): boolean {
+  if (statusCode === 401) return true;
+  return errorCode !== undefined && AUTH_EXPIRED_CODES.includes(errorCode);
+}
+
 class ApiClient {
   private baseUrl: string;
+  // In-flight (and recently finished) refreshes keyed by the refresh token used
+  private refreshes = new Map<string, Promise<AuthTokens | null>>();
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
@@ -28,6 +56,14 @@ class ApiClient {
     endpoint: string,
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
+    const { body } = await this.requestWithStatus<T>(endpoint, options);
+    return body;
+  }
+
+  private async requestWithStatus<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<{ status: number; body: ApiResponse<T> }> {
     const url = `${this.baseUrl}${endpoint}`;
 
     const headers: Record<string, string> = {
@@ -46,34 +82,43 @@ class ApiClient {
       if (!text) {
         console.error(`API returned empty response: ${endpoint} (status: ${response.status})`);
         return {
-          success: false,
-          error: {
-            code: "EMPTY_RESPONSE",
-            message: `Server returned empty response with status ${response.status}`,
+          status: response.status,
+          body: {
+            success: false,
+            error: {
+              code: "EMPTY_RESPONSE",
+              message: `Server returned empty response with status ${response.status}`,
+            },
           },
         };
       }
 
       try {
         const data = JSON.parse(text) as ApiResponse<T>;
-        return data;
+        return { status: response.status, body: data };
       } catch {
         console.error(`API returned invalid JSON: ${endpoint}`, text.substring(0, 200));
         return {
-          success: false,
-          error: {
-            code: "INVALID_JSON",
-            message: "Server returned invalid JSON",
+          status: response.status,
+          body: {
+            success: false,
+            error: {
+              code: "INVALID_JSON",
+              message: "Server returned invalid JSON",
+            },
           },
         };
       }
     } catch (error) {
       console.error(`API request failed: ${endpoint}`, error);
       return {
-        success: false,
-        error: {
-          code: "NETWORK_ERROR",
-          message: error instanceof Error ? error.message : "Network error",
+        status: 0,
+        body: {
+          success: false,
+          error: {
+            code: "NETWORK_ERROR",
+            message: error instanceof Error ? error.message : "Network error",
+          },
         },
       };
     }
@@ -89,12 +134,9 @@ class ApiClient {
     });
   }
 
-  async getMe(accessToken: string): Promise<ApiResponse<MeResponse>> {
-    return this.request<MeResponse>("/api/v1/auth/me", {
+  async getMe(auth: AuthCredentials): Promise<ApiResponse<MeResponse>> {
+    return this.authenticatedRequest<MeResponse>("/api/v1/auth/me", auth, {
       method: "GET",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
     });
   }
 
@@ -114,19 +156,75 @@ class ApiClient {
     });
   }
 
+  /**
+   * Refresh the access token of the given credentials
+   * Concurrent refreshes for the same refresh token share a single request.
+   * Returns true if the credentials now hold a token worth retrying with.
+   */
+  async refreshAuth(auth: AuthCredentials, rejectedAccessToken: string): Promise<boolean> {
+    // Someone else already refreshed these credentials while our request was in flight
+    if (auth.tokens.accessToken !== rejectedAccessToken) {
+      return true;
+    }
+
+    const staleRefreshToken = auth.tokens.refreshToken;
+    let pending = this.refreshes.get(staleRefreshToken);
+
+    if (!pending) {
+      console.log("Access token expired, refreshing...");
+      pending = this.refreshTokens(staleRefreshToken).then((response) => {
+        if (response.success && response.data) {
+          return response.data.tokens;
+        }
+        console.log(`Token refresh failed: ${response.error?.message}`);
+        return null;
+      });
+      this.refreshes.set(staleRefreshToken, pending);
+
+      pending.finally(() => {
+        setTimeout(() => this.refreshes.delete(staleRefreshToken), REFRESH_RESULT_TTL_MS).unref();
+      });
+    }
+
+    const tokens = await pending;
+    if (!tokens) {
+      auth.onRefreshFailed?.();
+      return false;
+    }
+
+    auth.tokens = tokens;
+    auth.onTokensRefreshed?.(tokens);
+    return true;
+  }
+
   // Helper to make authenticated requests
+  // Refreshes the access token once and replays the request if it has expired
   async authenticatedRequest<T>(
     endpoint: string,
-    accessToken: string,
+    auth: AuthCredentials,
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, {
-      ...options,
-      headers: {
-        ...((options.headers as Record<string, string>) || {}),
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
+    const send = (accessToken: string) =>
+      this.requestWithStatus<T>(endpoint, {
+        ...options,
+        headers: {
+          ...((options.headers as Record<string, string>) || {}),
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+
+    const usedToken = auth.tokens.accessToken;
+    const { status, body } = await send(usedToken);
+
+    if (!isAuthExpired(status, body.error?.code)) {
+      return body;
+    }
+
+    if (!(await this.refreshAuth(auth, usedToken))) {
+      return body;
+    }
+
+    return (await send(auth.tokens.accessToken)).body;
   }
 
   // Subscription endpoints (public - no auth required)
@@ -143,20 +241,20 @@ class ApiClient {
   }
 
   // Subscription endpoints (authenticated)
-  async getBalance(accessToken: string): Promise<ApiResponse<BalanceResponse>> {
+  async getBalance(auth: AuthCredentials): Promise<ApiResponse<BalanceResponse>> {
     return this.authenticatedRequest<BalanceResponse>(
       "/api/v1/subscription/balance",
-      accessToken
+      auth
     );
   }
 
   async activatePlanByName(
-    accessToken: string,
+    auth: AuthCredentials,
     planName: string
   ): Promise<ApiResponse<ActivatePlanResponse>> {
     return this.authenticatedRequest<ActivatePlanResponse>(
       "/api/v1/subscription/activate-plan-by-name",
-      accessToken,
+      auth,
       {
         method: "POST",
         body: JSON.stringify({ planName }),
@@ -165,12 +263,12 @@ class ApiClient {
   }
 
   async purchasePackageByName(
-    accessToken: string,
+    auth: AuthCredentials,
     packageName: string
   ): Promise<ApiResponse<PurchasePackageResponse>> {
     return this.authenticatedRequest<PurchasePackageResponse>(
       "/api/v1/subscription/purchase-package-by-name",
-      accessToken,
+      auth,
       {
         method: "POST",
         body: JSON.stringify({ packageName }),
@@ -189,11 +287,87 @@ class ApiClient {
   }
 
   async getLinkedAccountsStatus(
-    accessToken: string
+    auth: AuthCredentials
   ): Promise<ApiResponse<LinkedAccountsStatusResponse>> {
     return this.authenticatedRequest<LinkedAccountsStatusResponse>(
       "/api/v1/auth/link/status",
-      accessToken
+      auth
+    );
+  }
+
+  // Lecture endpoints
+  async getLectures(
+    auth: AuthCredentials,
+    params: LectureListParams = {}
+  ): Promise<ApiResponse<LecturesResponse>> {
+    const query = new URLSearchParams();
+    if (params.page) query.set("page", String(params.page));
+    if (params.limit) query.set("limit", String(params.limit));
+    if (params.summarizationType) query.set("summarizationType", params.summarizationType);
+
+    const queryString = query.toString();
+    return this.authenticatedRequest<LecturesResponse>(
+      "/api/v1/lectures" + (queryString ? "?" + queryString : ""),
+      auth
+    );
+  }
+
+  async searchLectures(
+    auth: AuthCredentials,
+    params: LectureSearchParams
+  ): Promise<ApiResponse<LectureSearchResponse>> {
+    const query = new URLSearchParams({ q: params.query });
+    if (params.limit) query.set("limit", String(params.limit));
+    if (params.offset) query.set("offset", String(params.offset));
+
+    return this.authenticatedRequest<LectureSearchResponse>(
+      "/api/v1/lectures/search?" + query.toString(),
+      auth
+    );
+  }
+
+  async getLecture(
+    auth: AuthCredentials,
+    lectureId: string
+  ): Promise<ApiResponse<LectureResponse>> {
+    return this.authenticatedRequest<LectureResponse>(
+      "/api/v1/lectures/" + encodeURIComponent(lectureId),
+      auth
+    );
+  }
+
+  async getLectureSummary(
+    auth: AuthCredentials,
+    lectureId: string
+  ): Promise<ApiResponse<LectureSummaryResponse>> {
+    return this.authenticatedRequest<LectureSummaryResponse>(
+      "/api/v1/lectures/" + encodeURIComponent(lectureId) + "/summary",
+      auth
+    );
+  }
+
+  async getLectureTranscript(
+    auth: AuthCredentials,
+    lectureId: string
+  ): Promise<ApiResponse<LectureTranscriptResponse>> {
+    return this.authenticatedRequest<LectureTranscriptResponse>(
+      "/api/v1/lectures/" + encodeURIComponent(lectureId) + "/transcript",
+      auth
+    );
+  }
+
+  async askLecture(
+    auth: AuthCredentials,
+    lectureId: string,
+    payload: LectureQuestionPayload
+  ): Promise<ApiResponse<LectureAnswerResponse>> {
+    return this.authenticatedRequest<LectureAnswerResponse>(
+      "/api/v1/lectures/" + encodeURIComponent(lectureId) + "/ask",
+      auth,
+      {
+        method: "POST",
+        body: JSON.stringify(payload),
+      }
     );
   }
 }
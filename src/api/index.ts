@@ -3,9 +3,25 @@ export type {
   ApiResponse,
   User,
   AuthTokens,
+  AuthCredentials,
   LoginResponse,
   TelegramAuthPayload,
   TelegramAuthResponse,
   MeResponse,
   LogoutResponse,
+  SummarizationType,
+  LectureStatus,
+  LectureListItem,
+  Lecture,
+  LectureListParams,
+  LecturesResponse,
+  LectureResponse,
+  LectureSearchParams,
+  LectureSearchResponse,
+  LectureSearchResult,
+  LectureSummaryResponse,
+  LectureTranscriptResponse,
+  LectureQuestionPayload,
+  LectureAnswerResponse,
+  TranscriptSegment,
 } from "./types.js";
@@ -32,6 +32,15 @@ export interface AuthTokens {
   expiresIn: string | number;
 }
 
+// Credentials for authenticated requests
+// Tokens are replaced in place when they are refreshed, so long-running
+// operations (e.g. chunked uploads) keep using the latest access token
+export interface AuthCredentials {
+  tokens: AuthTokens;
+  onTokensRefreshed?: (tokens: AuthTokens) => void;
+  onRefreshFailed?: () => void;
+}
+
 export interface LoginResponse {
   user: User;
   tokens: AuthTokens;
@@ -212,3 +221,83 @@ export interface LinkedAccountsStatusResponse {
     username?: string | null;
   };
 }
+
+// Lecture types
+export type SummarizationType = "lecture" | "custdev";
+export type LectureStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface LectureListItem {
+  id: string;
+  title: string | null;
+  summarizationType: SummarizationType;
+  status: LectureStatus;
+  durationSeconds: number | null;
+  createdAt: string;
+}
+
+export interface Lecture extends LectureListItem {
+  language: string | null;
+  errorMessage: string | null;
+}
+
+export interface LectureListParams {
+  page?: number; // 1-based
+  limit?: number;
+  summarizationType?: SummarizationType;
+}
+
+export interface LecturesResponse {
+  lectures: LectureListItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface LectureResponse {
+  lecture: Lecture;
+}
+
+export interface LectureSearchParams {
+  query: string; // empty - the latest lectures
+  limit?: number;
+  offset?: number;
+}
+
+export interface LectureSearchResult extends LectureListItem {
+  snippet: string | null; // text around the match
+  summary: string | null;
+}
+
+export interface LectureSearchResponse {
+  results: LectureSearchResult[];
+}
+
+export interface LectureSummaryResponse {
+  summary: string | null;
+  keyPoints: string[];
+}
+
+export interface TranscriptSegment {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface LectureTranscriptResponse {
+  transcript: string | null;
+  // Timed segments, when the backend kept them
+  segments?: TranscriptSegment[];
+}
+
+export interface LectureQuestionPayload {
+  question: string;
+  // Earlier questions and answers of the conversation, oldest first
+  history: { question: string; answer: string }[];
+}
+
+export interface LectureAnswerResponse {
+  answer: string;
+}
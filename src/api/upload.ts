@@ -1,27 +1,87 @@
-import { createReadStream } from "fs";
+import { createReadStream, createWriteStream, openAsBlob } from "fs";
 import { stat, unlink, open } from "fs/promises";
 import { exec } from "child_process";
+import { createHash, randomUUID } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { promisify } from "util";
 import path from "path";
 import os from "os";
 import { config } from "../config.js";
+import { extractAudio } from "../media/index.js";
+import type { TimeRange } from "../media/index.js";
+import { apiClient } from "./client.js";
+import { ChunkSizer, INITIAL_CHUNK_SIZE } from "./chunking.js";
+import type { AuthCredentials } from "./types.js";
 
 const execAsync = promisify(exec);
 
 // Constants for upload configuration
-const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB chunks
 const MAX_RETRIES = 5; // Increased from 3 for better reliability
 const MAX_SESSION_RESTARTS = 3; // Increased from 2
 const TUS_THRESHOLD_MB = 10; // Use TUS for files larger than 10MB
 const RETRY_BASE_DELAY_MS = 1000; // Start with 1s delay
 const MAX_RETRY_DELAY_MS = 30000; // Cap at 30s
+const SERVER_BUSY_STATUSES = [502, 503, 504];
+const CHECKSUM_MISMATCH_STATUS = 460; // TUS checksum extension: chunk arrived corrupted
+const CAPABILITIES_TTL_MS = 10 * 60 * 1000; // Re-check server TUS extensions every 10 min
+
+// Checksum algorithms we can send with TUS chunks, in order of preference
+const CHECKSUM_ALGORITHMS = ["sha1", "md5"] as const;
+type ChecksumAlgorithm = (typeof CHECKSUM_ALGORITHMS)[number];
+
+// TUS extensions the backend advertises that change how we upload
+interface TusCapabilities {
+  checksumAlgorithm: ChecksumAlgorithm | null;
+  concatenation: boolean;
+}
+
+// Languages the backend can transcribe ("auto" lets it detect the language)
+export const TRANSCRIPTION_LANGUAGES = ["uz", "ru", "en", "auto"] as const;
+export type TranscriptionLanguage = (typeof TRANSCRIPTION_LANGUAGES)[number];
 
 export interface UploadOptions {
   filename: string;
   mimeType: string;
-  language: string;
+  language: TranscriptionLanguage;
   summarizationType: "lecture" | "custdev";
   title?: string;
+  duration?: number; // Seconds, when known
+  originalFilename?: string; // Name of the video when only its audio track is uploaded
+  trim?: TimeRange; // Only upload this part of the recording
+}
+
+// One partial upload of a parallel TUS upload (concatenation extension)
+export interface TusUploadPart {
+  location: string; // TUS upload URL of the part
+  start: number; // Where the part starts in the file
+  length: number;
+}
+
+// A TUS upload in progress, with everything needed to resume it after a restart
+export interface ResumableUpload {
+  location?: string; // TUS upload URL returned by the backend (sequential uploads)
+  parts?: TusUploadPart[]; // Partial uploads joined at the end (parallel uploads)
+  filePath: string; // File being uploaded
+  fileSize: number;
+  options: UploadOptions;
+  originalPath: string; // Path reported by the Bot API (used for cleanup)
+  tempPath?: string; // Temporary copy to remove afterwards
+  source?: UploadSourceFiles; // Recording filePath was made from (extracted audio), removed afterwards too
+}
+
+// Files of a recording on disk, as passed to cleanupFiles
+export interface UploadSourceFiles {
+  filePath: string;
+  tempPath?: string;
+  originalPath: string;
+}
+
+export interface UploadProgress {
+  percent: number;
+  bytesPerSecond?: number; // Measured upload speed (TUS uploads)
+  etaSeconds?: number; // Estimated time left at that speed
+  chunkSize?: number; // Chunk size the uploader settled on
 }
 
 export interface UploadResult {
@@ -30,6 +90,12 @@ export interface UploadResult {
   error?: string;
   errorCode?: string;
   isRateLimited?: boolean;
+  isServerBusy?: boolean; // Backend is overloaded (502/503/504) - worth retrying later
+  isCancelled?: boolean; // Aborted through the caller's AbortSignal
+}
+
+function cancelledResult(): UploadResult {
+  return { success: false, error: "Upload cancelled", isCancelled: true };
 }
 
 /**
@@ -60,6 +126,61 @@ function isSessionExpiredError(statusCode: number, errorText: string): boolean {
   );
 }
 
+/**
+ * Unique temp file path (several uploads can download at the same time)
+ */
+function createTempFilePath(prefix: string): string {
+  return path.join(os.tmpdir(), `${prefix}-${randomUUID()}.tmp`);
+}
+
+/**
+ * Wait before a retry - resolves early if the upload is cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Hash a whole file without loading it into memory
+ * Returns the digest in the TUS checksum format ("<algorithm> <base64>").
+ */
+async function hashFile(filePath: string, algorithm: ChecksumAlgorithm, signal?: AbortSignal): Promise<string> {
+  const hash = createHash(algorithm);
+  for await (const chunk of createReadStream(filePath, { signal })) {
+    hash.update(chunk as Buffer);
+  }
+  return algorithm + " " + hash.digest("base64");
+}
+
+/**
+ * Every TUS upload URL an upload uses (the upload itself, or its parts)
+ */
+function getUploadLocations(upload: Pick<ResumableUpload, "location" | "parts">): string[] {
+  return upload.parts ? upload.parts.map((part) => part.location) : upload.location ? [upload.location] : [];
+}
+
+/**
+ * Split a file into ranges for a parallel upload
+ * At most maxParts ranges, and none smaller than a chunk.
+ */
+function splitIntoParts(fileSize: number, maxParts: number): { start: number; length: number }[] {
+  const partCount = Math.max(1, Math.min(maxParts, Math.floor(fileSize / INITIAL_CHUNK_SIZE)));
+  const partSize = Math.ceil(fileSize / partCount);
+  const ranges: { start: number; length: number }[] = [];
+  for (let start = 0; start < fileSize; start += partSize) {
+    ranges.push({ start, length: Math.min(partSize, fileSize - start) });
+  }
+  return ranges;
+}
+
 /**
  * Calculate retry delay with exponential backoff and jitter
  */
@@ -74,6 +195,7 @@ function getRetryDelay(retryCount: number): number {
 
 class UploadService {
   private baseUrl: string;
+  private capabilities: (TusCapabilities & { checkedAt: number }) | null = null;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
@@ -81,100 +203,46 @@ class UploadService {
 
   /**
    * Upload a file from a URL (e.g., Telegram file URL) to the backend
-   * This downloads the file and uploads it using multipart/form-data
-   * Only used for small files from Telegram Cloud API
+   * The download is streamed to a temp file which is then uploaded like a
+   * Local Bot API file (TUS for large files), so memory use stays flat
+   * whatever the file size.
    */
   async uploadFromUrl(
-    accessToken: string,
+    auth: AuthCredentials,
     fileUrl: string,
-    options: UploadOptions
+    options: UploadOptions,
+    onProgress?: (progress: UploadProgress) => void,
+    onUploadCreated?: (upload: ResumableUpload) => Promise<void>,
+    signal?: AbortSignal
   ): Promise<UploadResult> {
+    const tempFile = createTempFilePath("telegram-file");
+
     try {
       // First, download the file from Telegram
-      console.log("Downloading file from:", fileUrl);
-      const fileResponse = await fetch(fileUrl);
+      console.log("Downloading file from Telegram to:", tempFile);
+      const download = await this.downloadToFile(fileUrl, tempFile, signal);
 
-      if (!fileResponse.ok) {
+      if (!download.success) {
         return {
           success: false,
-          error: "Failed to download file from Telegram: " + fileResponse.status,
+          error: "Failed to download file from Telegram: " + download.error,
         };
       }
 
-      const fileBuffer = await fileResponse.arrayBuffer();
-      const fileBlob = new Blob([fileBuffer], { type: options.mimeType });
-
-      console.log("File downloaded, size:", fileBlob.size, "bytes");
-
-      // Create form data for upload
-      const formData = new FormData();
-      formData.append("file", fileBlob, options.filename);
-      formData.append("language", options.language);
-      formData.append("summarizationType", options.summarizationType);
-      if (options.title) {
-        formData.append("title", options.title);
-      }
-
-      // Upload to backend using simple upload endpoint
-      const uploadUrl = this.baseUrl + "/api/v1/lectures/upload";
-      console.log("Uploading to:", uploadUrl);
-
-      const uploadResponse = await fetch(uploadUrl, {
-        method: "POST",
-        headers: {
-          Authorization: "Bearer " + accessToken,
-        },
-        body: formData,
-      });
-
-      const responseText = await uploadResponse.text();
-      console.log("Upload response status:", uploadResponse.status);
-      console.log("Upload response:", responseText);
-
-      if (!uploadResponse.ok) {
-        let errorMsg = "Upload failed with status " + uploadResponse.status;
-        let errorCode: string | undefined;
-        let isRateLimited = false;
-
-        // Check for rate limiting (429 status)
-        if (uploadResponse.status === 429) {
-          isRateLimited = true;
-          errorCode = "RATE_LIMITED";
-          errorMsg = "Too many uploads. Please wait before uploading more files.";
-        }
-
-        try {
-          const errorData = JSON.parse(responseText);
-          errorCode = errorData.error?.code || errorCode;
-          errorMsg = errorData.error?.message || errorData.message || errorMsg;
-
-          // Also check error code for rate limit
-          if (errorCode === "UPLOAD_RATE_LIMIT_EXCEEDED" || errorCode === "RATE_LIMIT_EXCEEDED") {
-            isRateLimited = true;
-          }
-        } catch {
-          // Keep default error message
-        }
-
-        return {
-          success: false,
-          error: errorMsg,
-          errorCode,
-          isRateLimited,
-        };
-      }
-
-      const data = JSON.parse(responseText);
-      return {
-        success: true,
-        lectureId: data.data?.lecture?.id || data.lectureId || data.id,
-      };
+      return await this.uploadFile(auth, tempFile, tempFile, tempFile, options, onProgress, onUploadCreated, signal);
     } catch (error) {
+      if (signal?.aborted) {
+        console.log("Upload cancelled");
+        return cancelledResult();
+      }
       console.error("Upload service error:", error);
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown upload error",
       };
+    } finally {
+      // The temp copy is only useful while this upload runs
+      await unlink(tempFile).catch(() => {});
     }
   }
 
@@ -189,30 +257,95 @@ class UploadService {
    * Files are automatically cleaned up after successful upload to save disk space.
    */
   async uploadFromLocalPath(
-    accessToken: string,
+    auth: AuthCredentials,
     filePath: string,
     options: UploadOptions,
     botToken?: string,
     localApiUrl?: string,
-    onProgress?: (percent: number) => void
+    onProgress?: (progress: UploadProgress) => void,
+    onUploadCreated?: (upload: ResumableUpload) => Promise<void>,
+    signal?: AbortSignal
   ): Promise<UploadResult> {
-    // Track the actual file path for cleanup later
-    let actualFilePath: string | null = null;
-    let tempFilePath: string | null = null;
+    // Resolve the actual file path
+    const resolvedPath = await this.resolveFilePath(filePath, botToken, localApiUrl, signal);
 
+    if (signal?.aborted) {
+      await this.cleanupFiles(resolvedPath.actualPath ?? filePath, resolvedPath.tempPath, filePath);
+      return cancelledResult();
+    }
+
+    if (!resolvedPath.success) {
+      return {
+        success: false,
+        error: resolvedPath.error || "Failed to access file",
+      };
+    }
+
+    return this.uploadFile(
+      auth,
+      resolvedPath.actualPath!,
+      resolvedPath.tempPath,
+      filePath,
+      options,
+      onProgress,
+      onUploadCreated,
+      signal
+    );
+  }
+
+  /**
+   * Upload a file from disk - TUS for large files, multipart for small ones
+   * Videos are reduced to their audio track and trimmed recordings cut with
+   * ffmpeg first (see prepareMedia). Files are cleaned up after a successful
+   * (or cancelled) upload.
+   */
+  private async uploadFile(
+    auth: AuthCredentials,
+    actualFilePath: string,
+    tempFilePath: string | undefined,
+    originalPath: string,
+    options: UploadOptions,
+    onProgress?: (progress: UploadProgress) => void,
+    onUploadCreated?: (upload: ResumableUpload) => Promise<void>,
+    signal?: AbortSignal
+  ): Promise<UploadResult> {
     try {
-      // Resolve the actual file path
-      const resolvedPath = await this.resolveFilePath(filePath, botToken, localApiUrl);
+      const prepared = await this.prepareMedia(actualFilePath, options, signal);
 
-      if (!resolvedPath.success) {
-        return {
-          success: false,
-          error: resolvedPath.error || "Failed to access file",
-        };
+      if (signal?.aborted) {
+        await this.cleanupFiles(actualFilePath, tempFilePath, originalPath);
+        return cancelledResult();
       }
 
-      actualFilePath = resolvedPath.actualPath!;
-      tempFilePath = resolvedPath.tempPath || null;
+      if (prepared && "error" in prepared) {
+        return prepared.error;
+      }
+
+      if (prepared) {
+        try {
+          // The prepared options need no further processing. The journal also
+          // records the original recording, so a resumed upload removes it too.
+          const source: UploadSourceFiles = { filePath: actualFilePath, tempPath: tempFilePath, originalPath };
+          const result = await this.uploadFile(
+            auth,
+            prepared.filePath,
+            prepared.filePath,
+            prepared.filePath,
+            prepared.options,
+            onProgress,
+            onUploadCreated && ((upload) => onUploadCreated({ ...upload, source })),
+            signal
+          );
+
+          // The original recording is no longer needed
+          if (result.success || result.isCancelled) {
+            await this.cleanupFiles(actualFilePath, tempFilePath, originalPath);
+          }
+          return result;
+        } finally {
+          await unlink(prepared.filePath).catch(() => {});
+        }
+      }
 
       // Get file stats
       const fileStats = await stat(actualFilePath);
@@ -225,28 +358,47 @@ class UploadService {
         // Use streaming TUS chunked upload for large files
         console.log(`Using streaming TUS chunked upload (file > ${TUS_THRESHOLD_MB}MB)`);
         result = await this.uploadWithTusStreaming(
-          accessToken,
+          auth,
           actualFilePath,
           fileStats.size,
           options,
-          onProgress
+          onProgress,
+          onUploadCreated &&
+            ((created) =>
+              onUploadCreated({
+                ...created,
+                filePath: actualFilePath,
+                fileSize: fileStats.size,
+                options,
+                originalPath,
+                tempPath: tempFilePath,
+              })),
+          signal
         );
       } else {
-        // Use simple upload for small files (can load into memory)
+        // Use simple upload for small files
         console.log("Using simple upload (small file)");
-        result = await this.uploadSmallFile(accessToken, actualFilePath, options);
+        result = await this.uploadSmallFile(auth, actualFilePath, options, signal);
+        if (result.success) {
+          onProgress?.({ percent: 100 });
+        }
       }
 
-      // Only clean up if upload succeeded
-      if (!result.success) {
+      // Only clean up if upload succeeded or the user gave up on it
+      if (!result.success && !result.isCancelled) {
         return result;
       }
 
       // Clean up files after successful upload
-      await this.cleanupFiles(actualFilePath, tempFilePath, filePath);
+      await this.cleanupFiles(actualFilePath, tempFilePath, originalPath);
 
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        console.log("Upload cancelled");
+        await this.cleanupFiles(actualFilePath, tempFilePath, originalPath);
+        return cancelledResult();
+      }
       console.error("Local file upload error:", error);
       return {
         success: false,
@@ -255,13 +407,56 @@ class UploadService {
     }
   }
 
+  /**
+   * Cut the chosen time range and/or reduce a video to its audio track
+   * Only the audio is transcribed, so this saves upload time and backend
+   * storage. Returns the processed temp file with the options to upload it
+   * with, null to upload the file as it is (nothing to do, or audio
+   * extraction isn't possible), or an error when a requested trim failed.
+   */
+  private async prepareMedia(
+    filePath: string,
+    options: UploadOptions,
+    signal?: AbortSignal
+  ): Promise<{ filePath: string; options: UploadOptions } | { error: UploadResult } | null> {
+    const isVideo = options.mimeType.startsWith("video/");
+    if (!options.trim && !(config.extractAudio && isVideo)) {
+      return null;
+    }
+
+    const audioPath = createTempFilePath("audio");
+    console.log(`Extracting audio${options.trim ? " (trimmed)" : ""} to:`, audioPath);
+
+    if (await extractAudio(filePath, audioPath, options.trim, signal)) {
+      return {
+        filePath: audioPath,
+        options: {
+          ...options,
+          filename: path.parse(options.filename).name + ".ogg",
+          mimeType: "audio/ogg",
+          originalFilename: options.originalFilename || options.filename,
+          trim: undefined,
+        },
+      };
+    }
+
+    // Uploading the whole recording would charge for minutes the user cut
+    if (options.trim) {
+      return { error: { success: false, error: "Failed to cut the selected time range" } };
+    }
+
+    console.log("Audio extraction skipped, uploading the original file");
+    return null;
+  }
+
   /**
    * Resolve the actual file path, handling different access methods
    */
   private async resolveFilePath(
     filePath: string,
     botToken?: string,
-    localApiUrl?: string
+    localApiUrl?: string,
+    signal?: AbortSignal
   ): Promise<{ success: boolean; actualPath?: string; tempPath?: string; error?: string }> {
     // Method 1: Try direct file access (for Railway where both services run in same container)
     if (filePath.startsWith("/var/lib/telegram-bot-api/")) {
@@ -309,46 +504,48 @@ class UploadService {
       const fileUrl = `${apiUrl}/file/bot${token}/${filePath}`;
 
       console.log("Downloading from Local Bot API:", fileUrl);
-      const tempFile = path.join(os.tmpdir(), `telegram-file-${Date.now()}.tmp`);
+      const tempFile = createTempFilePath("telegram-file");
+      const download = await this.downloadToFile(fileUrl, tempFile, signal);
 
-      try {
-        const fileResponse = await fetch(fileUrl);
-        if (!fileResponse.ok) {
-          return {
-            success: false,
-            error: `Failed to download file from Local Bot API: ${fileResponse.status}`,
-          };
-        }
-
-        // Stream download to temp file
-        const { createWriteStream } = await import("fs");
-        const writeStream = createWriteStream(tempFile);
-        const reader = fileResponse.body?.getReader();
+      if (!download.success) {
+        return { success: false, error: `Failed to download file from Local Bot API: ${download.error}` };
+      }
 
-        if (!reader) {
-          return { success: false, error: "Failed to get response body reader" };
-        }
+      return { success: true, actualPath: tempFile, tempPath: tempFile };
+    }
+  }
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          writeStream.write(Buffer.from(value));
-        }
+  /**
+   * Stream a download straight to disk (never held in memory)
+   * A partial file is removed if the download fails.
+   */
+  private async downloadToFile(
+    url: string,
+    destination: string,
+    signal?: AbortSignal
+  ): Promise<{ success: boolean; size?: number; error?: string }> {
+    try {
+      const response = await fetch(url, { signal });
+      if (!response.ok || !response.body) {
+        await response.body?.cancel().catch(() => {});
+        return { success: false, error: "HTTP " + response.status };
+      }
 
-        await new Promise<void>((resolve, reject) => {
-          writeStream.on("finish", resolve);
-          writeStream.on("error", reject);
-          writeStream.end();
-        });
+      await pipeline(Readable.fromWeb(response.body), createWriteStream(destination, { mode: 0o600 }), { signal });
 
-        console.log("Download complete");
-        return { success: true, actualPath: tempFile, tempPath: tempFile };
-      } catch (error) {
-        return {
-          success: false,
-          error: `Failed to download file: ${error instanceof Error ? error.message : "Unknown error"}`,
-        };
+      const { size } = await stat(destination);
+      console.log("Download complete, size:", size, "bytes");
+      return { success: true, size };
+    } catch (error) {
+      // Don't leave a partial download behind
+      await unlink(destination).catch(() => {});
+      if (signal?.aborted) {
+        return { success: false, error: "Download cancelled" };
       }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
     }
   }
 
@@ -356,19 +553,13 @@ class UploadService {
    * Upload a small file using simple multipart upload
    */
   private async uploadSmallFile(
-    accessToken: string,
+    auth: AuthCredentials,
     filePath: string,
-    options: UploadOptions
+    options: UploadOptions,
+    signal?: AbortSignal
   ): Promise<UploadResult> {
-    // For small files, loading into memory is acceptable
-    const chunks: Buffer[] = [];
-    const stream = createReadStream(filePath);
-    for await (const chunk of stream) {
-      chunks.push(Buffer.from(chunk));
-    }
-    const fileBuffer = Buffer.concat(chunks);
-
-    const fileBlob = new Blob([fileBuffer], { type: options.mimeType });
+    // File-backed Blob - the body is streamed from disk, not loaded into memory
+    const fileBlob = await openAsBlob(filePath, { type: options.mimeType });
 
     const formData = new FormData();
     formData.append("file", fileBlob, options.filename);
@@ -377,16 +568,20 @@ class UploadService {
     if (options.title) {
       formData.append("title", options.title);
     }
+    if (options.duration) {
+      formData.append("duration", String(options.duration));
+    }
+    if (options.originalFilename) {
+      formData.append("originalFilename", options.originalFilename);
+    }
 
     const uploadUrl = this.baseUrl + "/api/v1/lectures/upload";
     console.log("Uploading to:", uploadUrl);
 
-    const uploadResponse = await fetch(uploadUrl, {
+    const uploadResponse = await this.authorizedFetch(auth, uploadUrl, {
       method: "POST",
-      headers: {
-        Authorization: "Bearer " + accessToken,
-      },
       body: formData,
+      signal,
     });
 
     const responseText = await uploadResponse.text();
@@ -407,87 +602,100 @@ class UploadService {
   /**
    * Upload using TUS protocol with STREAMING - reads chunks directly from disk
    * This is memory-efficient for large files (200-300 MB)
-   * Only one 5MB chunk is in memory at a time
+   * Only one chunk is in memory at a time (per part for parallel uploads)
    */
   async uploadWithTusStreaming(
-    accessToken: string,
+    auth: AuthCredentials,
     filePath: string,
     fileSize: number,
     options: UploadOptions,
-    onProgress?: (percent: number) => void
+    onProgress?: (progress: UploadProgress) => void,
+    onCreated?: (created: Pick<ResumableUpload, "location" | "parts">) => Promise<void>,
+    signal?: AbortSignal
   ): Promise<UploadResult> {
     let sessionRestarts = 0;
+    let metadata: string | undefined;
 
     // Wrap in restart loop to handle expired sessions
     while (sessionRestarts <= MAX_SESSION_RESTARTS) {
+      const createdLocations: string[] = [];
       try {
-        const uploadEndpoint = this.baseUrl + "/api/v1/uploads";
-        const totalChunks = Math.ceil(fileSize / CHUNK_SIZE);
-
-        // Step 1: Create upload session with POST
-        const metadata = this.buildMetadata({
-          filename: options.filename,
-          filetype: options.mimeType,
-          language: options.language,
-          summarizationType: options.summarizationType,
-          title: options.title || "",
-        });
+        const capabilities = await this.getCapabilities();
+
+        // Built once - hashing the file again on a restart is wasted work
+        metadata ??= await this.buildUploadMetadata(filePath, options, signal);
+
+        // Parallel parts need the concatenation extension - otherwise upload sequentially
+        let ranges = [{ start: 0, length: fileSize }];
+        if (config.tusParallelUploads > 1) {
+          if (capabilities.concatenation) {
+            ranges = splitIntoParts(fileSize, config.tusParallelUploads);
+          } else {
+            console.log("Backend doesn't support TUS concatenation, uploading sequentially");
+          }
+        }
 
         if (sessionRestarts > 0) {
           console.log(`Restarting upload (attempt ${sessionRestarts + 1}/${MAX_SESSION_RESTARTS + 1})...`);
         }
         console.log(`Creating TUS upload, size: ${fileSize} bytes (${(fileSize / 1024 / 1024).toFixed(1)} MB)`);
-        console.log(`Will upload in ${totalChunks} chunks of ${CHUNK_SIZE / 1024 / 1024}MB`);
+        console.log(`Starting with ${INITIAL_CHUNK_SIZE / 1024 / 1024}MB chunks, sized by measured throughput`);
+
+        let result: UploadResult & { sessionExpired?: boolean };
+
+        if (ranges.length > 1) {
+          // Step 1: Create one partial upload per range
+          console.log(`Splitting upload into ${ranges.length} parallel parts`);
+          const parts: TusUploadPart[] = [];
+          for (const range of ranges) {
+            const created = await this.createTusUpload(auth, {
+              "Upload-Length": String(range.length),
+              "Upload-Concat": "partial",
+            }, signal);
+            if ("error" in created) {
+              await this.terminateUploads(auth, createdLocations);
+              return created.error;
+            }
+            createdLocations.push(created.location);
+            parts.push({ ...range, location: created.location });
+          }
 
-        const createResponse = await fetch(uploadEndpoint, {
-          method: "POST",
-          headers: {
-            Authorization: "Bearer " + accessToken,
-            "Tus-Resumable": "1.0.0",
+          console.log("Upload parts created at:", createdLocations.join(", "));
+          await onCreated?.({ parts });
+
+          // Step 2: Upload the parts side by side and join them
+          result = await this.uploadParts(auth, filePath, parts, metadata, onProgress, signal);
+        } else {
+          // Step 1: Create upload session with POST
+          const created = await this.createTusUpload(auth, {
             "Upload-Length": String(fileSize),
             "Upload-Metadata": metadata,
-          },
-        });
-
-        if (createResponse.status !== 201) {
-          const errorText = await createResponse.text();
-          console.error("TUS create failed:", createResponse.status, errorText);
-
-          // Check for rate limiting
-          if (createResponse.status === 429) {
-            return {
-              success: false,
-              error: "Too many uploads. Please wait before uploading more files.",
-              errorCode: "RATE_LIMITED",
-              isRateLimited: true,
-            };
+          }, signal);
+          if ("error" in created) {
+            return created.error;
           }
-
-          return {
-            success: false,
-            error: "Failed to create upload: " + createResponse.status,
-          };
+          createdLocations.push(created.location);
+
+          console.log("Upload created at:", created.location);
+          await onCreated?.({ location: created.location });
+
+          // Step 2: Upload file in chunks using streaming
+          result = await this.uploadChunksStreaming(
+            auth,
+            created.location,
+            filePath,
+            fileSize,
+            onProgress,
+            0,
+            signal
+          );
         }
 
-        const uploadLocation = createResponse.headers.get("Location");
-        if (!uploadLocation) {
-          return {
-            success: false,
-            error: "No upload location returned",
-          };
+        if (result.isCancelled) {
+          await this.terminateUploads(auth, createdLocations);
+          return result;
         }
 
-        console.log("Upload created at:", uploadLocation);
-
-        // Step 2: Upload file in chunks using streaming
-        const result = await this.uploadChunksStreaming(
-          accessToken,
-          uploadLocation,
-          filePath,
-          fileSize,
-          onProgress
-        );
-
         if (result.sessionExpired) {
           sessionRestarts++;
           if (sessionRestarts > MAX_SESSION_RESTARTS) {
@@ -497,11 +705,18 @@ class UploadService {
             };
           }
           console.log("Session expired, will restart upload...");
+          // The new upload starts from scratch - don't leave the old one (or its parts) on the server
+          await this.terminateUploads(auth, createdLocations);
           continue; // Restart the upload
         }
 
         return result;
       } catch (error) {
+        if (signal?.aborted) {
+          console.log("Upload cancelled");
+          await this.terminateUploads(auth, createdLocations);
+          return cancelledResult();
+        }
         console.error("TUS upload error:", error);
         return {
           success: false,
@@ -516,27 +731,234 @@ class UploadService {
     };
   }
 
+  /**
+   * Create a TUS upload with POST
+   * Returns its location, or the result to report if the backend refuses.
+   */
+  private async createTusUpload(
+    auth: AuthCredentials,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<{ location: string } | { error: UploadResult }> {
+    const createResponse = await this.authorizedFetch(auth, this.baseUrl + "/api/v1/uploads", {
+      method: "POST",
+      headers: {
+        "Tus-Resumable": "1.0.0",
+        ...headers,
+      },
+      signal,
+    });
+
+    if (createResponse.status !== 201) {
+      const errorText = await createResponse.text();
+      console.error("TUS create failed:", createResponse.status, errorText);
+
+      // Check for rate limiting
+      if (createResponse.status === 429) {
+        return {
+          error: {
+            success: false,
+            error: "Too many uploads. Please wait before uploading more files.",
+            errorCode: "RATE_LIMITED",
+            isRateLimited: true,
+          },
+        };
+      }
+
+      return {
+        error: {
+          success: false,
+          error: "Failed to create upload: " + createResponse.status,
+          isServerBusy: SERVER_BUSY_STATUSES.includes(createResponse.status),
+        },
+      };
+    }
+
+    const location = createResponse.headers.get("Location");
+    if (!location) {
+      return {
+        error: {
+          success: false,
+          error: "No upload location returned",
+        },
+      };
+    }
+
+    return { location };
+  }
+
+  /**
+   * Upload the parts of a parallel upload, then join them (concatenation extension)
+   * Each part streams its own range of the file through uploadChunksStreaming,
+   * with the usual retries. When resuming, each part continues from the
+   * offset the server already has. One part failing for good stops the others.
+   */
+  private async uploadParts(
+    auth: AuthCredentials,
+    filePath: string,
+    parts: TusUploadPart[],
+    metadata: string,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal,
+    resume = false
+  ): Promise<UploadResult & { sessionExpired?: boolean }> {
+    const fileSize = parts.reduce((total, part) => total + part.length, 0);
+    const uploadedBytes = parts.map(() => 0);
+    const partSpeeds = parts.map(() => 0);
+
+    const partsController = new AbortController();
+    const abortParts = () => partsController.abort();
+    signal?.addEventListener("abort", abortParts, { once: true });
+
+    try {
+      const results = await Promise.all(
+        parts.map(async (part, index): Promise<UploadResult & { sessionExpired?: boolean }> => {
+          try {
+            let startOffset = 0;
+            if (resume) {
+              const headResult = await this.checkServerOffset(auth, part.location);
+              if (headResult.sessionExpired) {
+                partsController.abort();
+                return { success: false, sessionExpired: true };
+              }
+              startOffset = headResult.offset ?? 0;
+              uploadedBytes[index] = startOffset;
+            }
+
+            const result = await this.uploadChunksStreaming(
+              auth,
+              part.location,
+              filePath,
+              part.length,
+              (progress) => {
+                // Parts run side by side, so their speeds add up (finished parts don't count)
+                uploadedBytes[index] = (part.length * progress.percent) / 100;
+                partSpeeds[index] = progress.percent < 100 ? progress.bytesPerSecond ?? 0 : 0;
+                const uploaded = uploadedBytes.reduce((total, bytes) => total + bytes, 0);
+                const bytesPerSecond = partSpeeds.reduce((total, speed) => total + speed, 0);
+                onProgress?.({
+                  percent: Math.round((uploaded / fileSize) * 100),
+                  bytesPerSecond: bytesPerSecond || undefined,
+                  etaSeconds: bytesPerSecond ? Math.round((fileSize - uploaded) / bytesPerSecond) : undefined,
+                });
+              },
+              startOffset,
+              partsController.signal,
+              part.start
+            );
+
+            if (!result.success) {
+              partsController.abort();
+            }
+            return result;
+          } catch (error) {
+            partsController.abort();
+            return {
+              success: false,
+              error: error instanceof Error ? error.message : "Unknown part upload error",
+            };
+          }
+        })
+      );
+
+      if (signal?.aborted) {
+        return cancelledResult();
+      }
+
+      // Parts stopped because a sibling failed report themselves as cancelled
+      const expired = results.find((result) => result.sessionExpired);
+      const failed =
+        results.find((result) => !result.success && !result.isCancelled) ??
+        results.find((result) => !result.success);
+      if (expired || failed) {
+        return expired ?? failed!;
+      }
+
+      return await this.concatenateParts(auth, parts, metadata, signal);
+    } finally {
+      signal?.removeEventListener("abort", abortParts);
+    }
+  }
+
+  /**
+   * Join uploaded parts into the final upload
+   * The metadata goes with the final upload, and the backend answers with
+   * the lecture ID as it does on the last chunk of a sequential upload.
+   */
+  private async concatenateParts(
+    auth: AuthCredentials,
+    parts: TusUploadPart[],
+    metadata: string,
+    signal?: AbortSignal
+  ): Promise<UploadResult & { sessionExpired?: boolean }> {
+    const response = await this.authorizedFetch(auth, this.baseUrl + "/api/v1/uploads", {
+      method: "POST",
+      headers: {
+        "Tus-Resumable": "1.0.0",
+        "Upload-Concat": "final;" + parts.map((part) => part.location).join(" "),
+        "Upload-Metadata": metadata,
+      },
+      signal,
+    });
+
+    if (response.status !== 201) {
+      const errorText = await response.text();
+      console.error("TUS concatenation failed:", response.status, errorText);
+
+      if (isSessionExpiredError(response.status, errorText)) {
+        return { success: false, sessionExpired: true };
+      }
+
+      return {
+        success: false,
+        error: "Failed to join upload parts: " + response.status,
+        isServerBusy: SERVER_BUSY_STATUSES.includes(response.status),
+      };
+    }
+
+    await response.body?.cancel().catch(() => {});
+    const lectureId = response.headers.get("X-Lecture-Id");
+    console.log("TUS parts joined, lecture ID:", lectureId);
+
+    return {
+      success: true,
+      lectureId: lectureId || undefined,
+    };
+  }
+
   /**
    * Upload chunks by streaming directly from file
-   * Only one chunk (5MB) is in memory at a time
+   * Only one chunk is in memory at a time. Its size adapts to the measured
+   * throughput and error rate (see ChunkSizer). Partial uploads pass where
+   * their range starts in the file as fileStart and its length as fileSize.
    */
   private async uploadChunksStreaming(
-    accessToken: string,
+    auth: AuthCredentials,
     uploadLocation: string,
     filePath: string,
     fileSize: number,
-    onProgress?: (percent: number) => void
+    onProgress?: (progress: UploadProgress) => void,
+    startOffset = 0,
+    signal?: AbortSignal,
+    fileStart = 0
   ): Promise<UploadResult & { sessionExpired?: boolean }> {
-    let offset = 0;
+    let offset = startOffset;
     let lectureId: string | null = null;
-    const totalChunks = Math.ceil(fileSize / CHUNK_SIZE);
+    let chunkNumber = 0;
+    const sizer = new ChunkSizer();
+    const { checksumAlgorithm } = await this.getCapabilities();
 
     // Open file handle for efficient reading
     const fileHandle = await open(filePath, "r");
 
     try {
       while (offset < fileSize) {
-        const chunkNumber = Math.floor(offset / CHUNK_SIZE) + 1;
+        if (signal?.aborted) {
+          await fileHandle.close();
+          return cancelledResult();
+        }
+
+        chunkNumber++;
         let success = false;
         let lastError: string | null = null;
 
@@ -544,10 +966,15 @@ class UploadService {
           if (retry > 0) {
             const delay = getRetryDelay(retry);
             console.log(`Retry ${retry}/${MAX_RETRIES} for chunk ${chunkNumber} (waiting ${delay}ms)...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            await sleep(delay, signal);
+
+            if (signal?.aborted) {
+              await fileHandle.close();
+              return cancelledResult();
+            }
 
             // On retry, check server's current offset with HEAD request
-            const headResult = await this.checkServerOffset(accessToken, uploadLocation);
+            const headResult = await this.checkServerOffset(auth, uploadLocation);
 
             if (headResult.sessionExpired) {
               await fileHandle.close();
@@ -561,35 +988,44 @@ class UploadService {
           }
 
           // Read chunk directly from file at current offset
-          const chunkEnd = Math.min(offset + CHUNK_SIZE, fileSize);
+          const chunkEnd = Math.min(offset + sizer.chunkSize, fileSize);
           const chunkSize = chunkEnd - offset;
           const chunkBuffer = Buffer.alloc(chunkSize);
 
-          const { bytesRead } = await fileHandle.read(chunkBuffer, 0, chunkSize, offset);
+          const { bytesRead } = await fileHandle.read(chunkBuffer, 0, chunkSize, fileStart + offset);
           if (bytesRead !== chunkSize) {
             lastError = `Failed to read chunk from file: expected ${chunkSize}, got ${bytesRead}`;
             console.error(lastError);
             continue;
           }
 
-          console.log(`Uploading chunk ${chunkNumber}/${totalChunks} (${chunkSize} bytes, offset: ${offset})`);
+          console.log(`Uploading chunk ${chunkNumber} (${chunkSize} bytes, offset: ${offset}/${fileSize})`);
+
+          const headers: Record<string, string> = {
+            "Tus-Resumable": "1.0.0",
+            "Upload-Offset": String(offset),
+            "Content-Type": "application/offset+octet-stream",
+          };
+          if (checksumAlgorithm) {
+            headers["Upload-Checksum"] =
+              checksumAlgorithm + " " + createHash(checksumAlgorithm).update(chunkBuffer).digest("base64");
+          }
 
           try {
-            const patchResponse = await fetch(uploadLocation, {
+            const sentAt = Date.now();
+            const patchResponse = await this.authorizedFetch(auth, uploadLocation, {
               method: "PATCH",
-              headers: {
-                Authorization: "Bearer " + accessToken,
-                "Tus-Resumable": "1.0.0",
-                "Upload-Offset": String(offset),
-                "Content-Type": "application/offset+octet-stream",
-              },
+              headers,
               body: chunkBuffer,
+              signal,
             });
 
             if (patchResponse.status === 204 || patchResponse.status === 200) {
               // Get the new offset from response
               const newOffset = patchResponse.headers.get("Upload-Offset");
+              const previousOffset = offset;
               offset = newOffset ? parseInt(newOffset, 10) : chunkEnd;
+              sizer.recordSuccess(offset - previousOffset, Date.now() - sentAt);
 
               // Check for lecture ID on final chunk
               const respLectureId = patchResponse.headers.get("X-Lecture-Id");
@@ -601,9 +1037,18 @@ class UploadService {
 
               // Report progress
               const percent = Math.round((offset / fileSize) * 100);
-              console.log(`Progress: ${percent}%`);
+              const bytesPerSecond = sizer.bytesPerSecond;
+              console.log(
+                `Progress: ${percent}%` +
+                  (bytesPerSecond ? ` (${(bytesPerSecond / 1024 / 1024).toFixed(1)} MB/s, next chunk ${sizer.chunkSize} bytes)` : "")
+              );
               if (onProgress) {
-                onProgress(percent);
+                onProgress({
+                  percent,
+                  bytesPerSecond,
+                  etaSeconds: bytesPerSecond ? Math.round((fileSize - offset) / bytesPerSecond) : undefined,
+                  chunkSize: sizer.chunkSize,
+                });
               }
             } else if (patchResponse.status === 409) {
               // Offset mismatch - get correct offset from server
@@ -613,6 +1058,12 @@ class UploadService {
                 console.log(`Offset mismatch, server at ${offset}, retrying...`);
               }
               lastError = "Offset mismatch";
+            } else if (patchResponse.status === CHECKSUM_MISMATCH_STATUS) {
+              // Chunk was corrupted on the way - the server discarded it, send it again
+              await patchResponse.body?.cancel().catch(() => {});
+              sizer.recordFailure();
+              lastError = "Checksum mismatch";
+              console.log(`Checksum mismatch for chunk ${chunkNumber}, retrying...`);
             } else {
               // Check for session expiration
               const errorText = await patchResponse.text();
@@ -623,10 +1074,16 @@ class UploadService {
                 return { success: false, sessionExpired: true };
               }
 
+              sizer.recordFailure();
               lastError = `Server error ${patchResponse.status}: ${errorText.substring(0, 200)}`;
               console.error(lastError);
             }
           } catch (fetchError) {
+            if (signal?.aborted) {
+              await fileHandle.close();
+              return cancelledResult();
+            }
+            sizer.recordFailure();
             lastError = fetchError instanceof Error ? fetchError.message : "Network error";
             console.error(`Chunk upload network error: ${lastError}`);
           }
@@ -654,18 +1111,202 @@ class UploadService {
     }
   }
 
+  /**
+   * Continue a TUS upload started by a previous run of the bot
+   * Asks the server how much it already has and uploads the rest (for each
+   * part of a parallel upload). If the server no longer knows the upload,
+   * it is started again from the file.
+   * Files are cleaned up after a successful upload, as in uploadFromLocalPath.
+   */
+  async resumeUpload(
+    auth: AuthCredentials,
+    upload: ResumableUpload,
+    onProgress?: (progress: UploadProgress) => void,
+    onUploadCreated?: (upload: ResumableUpload) => Promise<void>,
+    signal?: AbortSignal
+  ): Promise<UploadResult> {
+    try {
+      await stat(upload.filePath);
+    } catch {
+      return {
+        success: false,
+        error: "Upload source file no longer exists: " + upload.filePath,
+      };
+    }
+
+    try {
+      let result: UploadResult & { sessionExpired?: boolean } = { success: false, sessionExpired: true };
+
+      if (upload.parts) {
+        console.log(`Resuming parallel TUS upload (${upload.parts.length} parts)`);
+        const metadata = await this.buildUploadMetadata(upload.filePath, upload.options, signal);
+        result = await this.uploadParts(auth, upload.filePath, upload.parts, metadata, onProgress, signal, true);
+
+        if (result.isCancelled) {
+          await this.terminateUploads(auth, getUploadLocations(upload));
+        }
+      } else if (upload.location) {
+        const headResult = await this.checkServerOffset(auth, upload.location);
+        if (!headResult.sessionExpired) {
+          const offset = headResult.offset ?? 0;
+          console.log(`Resuming TUS upload at ${upload.location} from offset ${offset}/${upload.fileSize}`);
+          result = await this.uploadChunksStreaming(
+            auth,
+            upload.location,
+            upload.filePath,
+            upload.fileSize,
+            onProgress,
+            offset,
+            signal
+          );
+
+          if (result.isCancelled) {
+            await this.terminateUpload(auth, upload.location);
+          }
+        }
+      }
+
+      if (result.sessionExpired && !signal?.aborted) {
+        console.log("Upload session is gone, starting the upload again...");
+        result = await this.uploadWithTusStreaming(
+          auth,
+          upload.filePath,
+          upload.fileSize,
+          upload.options,
+          onProgress,
+          onUploadCreated &&
+            ((created) => onUploadCreated({ ...upload, location: created.location, parts: created.parts })),
+          signal
+        );
+      }
+
+      if (signal?.aborted) {
+        result = cancelledResult();
+      }
+
+      if (result.success || result.isCancelled) {
+        await this.cleanupUploadFiles(upload);
+      }
+
+      return result;
+    } catch (error) {
+      console.error("Resume upload error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown resume error",
+      };
+    }
+  }
+
+  /**
+   * Drop an interrupted upload that won't be resumed
+   * Terminates it on the backend (when there are credentials to) and
+   * removes the local files.
+   */
+  async abandonUpload(auth: AuthCredentials | undefined, upload: ResumableUpload): Promise<void> {
+    if (auth) {
+      await this.terminateUploads(auth, getUploadLocations(upload));
+    }
+    await this.cleanupUploadFiles(upload);
+  }
+
+  /**
+   * Remove the files of a journaled upload, including the recording it was made from
+   */
+  private async cleanupUploadFiles(upload: ResumableUpload): Promise<void> {
+    await this.cleanupFiles(upload.filePath, upload.tempPath, upload.originalPath);
+    if (upload.source) {
+      await this.cleanupFiles(upload.source.filePath, upload.source.tempPath, upload.source.originalPath);
+    }
+  }
+
+  /**
+   * Ask the backend to discard a TUS upload (termination extension)
+   * Best effort - the backend expires abandoned uploads on its own.
+   */
+  private async terminateUpload(auth: AuthCredentials, uploadLocation: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(auth, uploadLocation, {
+        method: "DELETE",
+        headers: {
+          "Tus-Resumable": "1.0.0",
+        },
+      });
+      console.log("TUS upload terminated:", uploadLocation, response.status);
+    } catch (error) {
+      console.log("TUS termination failed:", error instanceof Error ? error.message : "Unknown error");
+    }
+  }
+
+  /**
+   * Terminate several TUS uploads (e.g. every part of a parallel upload)
+   */
+  private async terminateUploads(auth: AuthCredentials, uploadLocations: string[]): Promise<void> {
+    await Promise.all(uploadLocations.map((location) => this.terminateUpload(auth, location)));
+  }
+
+  /**
+   * TUS extensions the backend supports that we make use of
+   * Discovered with OPTIONS and cached for a while. A failed check isn't
+   * cached, so the next upload asks again - until then uploads go without
+   * checksums, sequentially.
+   */
+  private async getCapabilities(): Promise<TusCapabilities> {
+    if (this.capabilities && Date.now() - this.capabilities.checkedAt < CAPABILITIES_TTL_MS) {
+      return this.capabilities;
+    }
+    const unsupported: TusCapabilities = { checksumAlgorithm: null, concatenation: false };
+
+    try {
+      const response = await fetch(this.baseUrl + "/api/v1/uploads", {
+        method: "OPTIONS",
+        headers: {
+          "Tus-Resumable": "1.0.0",
+        },
+        signal: AbortSignal.timeout(10000),
+      });
+      await response.body?.cancel().catch(() => {});
+
+      if (!response.ok) {
+        console.log("TUS OPTIONS request failed:", response.status);
+        return unsupported;
+      }
+
+      const parseList = (header: string | null) =>
+        (header ?? "").split(",").map((value) => value.trim().toLowerCase()).filter(Boolean);
+      const extensions = parseList(response.headers.get("Tus-Extension"));
+      const algorithms = parseList(response.headers.get("Tus-Checksum-Algorithm"));
+
+      const capabilities: TusCapabilities = {
+        checksumAlgorithm: extensions.includes("checksum")
+          ? CHECKSUM_ALGORITHMS.find((candidate) => algorithms.includes(candidate)) ?? null
+          : null,
+        concatenation: extensions.includes("concatenation"),
+      };
+
+      console.log(
+        "TUS checksum algorithm:", capabilities.checksumAlgorithm ?? "none",
+        "concatenation:", capabilities.concatenation
+      );
+      this.capabilities = { ...capabilities, checkedAt: Date.now() };
+      return capabilities;
+    } catch (error) {
+      console.log("TUS OPTIONS request failed:", error instanceof Error ? error.message : "Unknown error");
+      return unsupported;
+    }
+  }
+
   /**
    * Check server's current upload offset with HEAD request
    */
   private async checkServerOffset(
-    accessToken: string,
+    auth: AuthCredentials,
     uploadLocation: string
   ): Promise<{ sessionExpired: boolean; offset: number | null }> {
     try {
-      const headResponse = await fetch(uploadLocation, {
+      const headResponse = await this.authorizedFetch(auth, uploadLocation, {
         method: "HEAD",
         headers: {
-          Authorization: "Bearer " + accessToken,
           "Tus-Resumable": "1.0.0",
         },
       });
@@ -693,6 +1334,41 @@ class UploadService {
     }
   }
 
+  /**
+   * Fetch with the current access token
+   * On 401 the token is refreshed once (shared with any concurrent refresh)
+   * and the request is replayed. Bodies must be re-sendable (Buffer, FormData).
+   */
+  private async authorizedFetch(
+    auth: AuthCredentials,
+    url: string,
+    init: RequestInit & { headers?: Record<string, string> }
+  ): Promise<Response> {
+    const send = (accessToken: string) =>
+      fetch(url, {
+        ...init,
+        headers: {
+          ...(init.headers || {}),
+          Authorization: "Bearer " + accessToken,
+        },
+      });
+
+    const usedToken = auth.tokens.accessToken;
+    const response = await send(usedToken);
+
+    if (response.status !== 401) {
+      return response;
+    }
+
+    if (!(await apiClient.refreshAuth(auth, usedToken))) {
+      return response;
+    }
+
+    // Discard the rejected response before replaying
+    await response.body?.cancel().catch(() => {});
+    return send(auth.tokens.accessToken);
+  }
+
   /**
    * Clean up files after successful upload
    */
@@ -701,8 +1377,9 @@ class UploadService {
     tempFilePath: string | null | undefined,
     originalPath: string
   ): Promise<void> {
-    // Clean up temp file first
-    if (tempFilePath && tempFilePath !== actualFilePath) {
+    // Clean up temp file first (it may be the file that was uploaded - a
+    // download or extracted audio)
+    if (tempFilePath) {
       try {
         await unlink(tempFilePath);
         console.log("Cleaned up temp file:", tempFilePath);
@@ -712,7 +1389,7 @@ class UploadService {
     }
 
     // Clean up source file (for bot API files)
-    if (originalPath.startsWith("/var/lib/telegram-bot-api/")) {
+    if (originalPath.startsWith("/var/lib/telegram-bot-api/") && actualFilePath !== tempFilePath) {
       try {
         await unlink(actualFilePath);
         console.log("Cleaned up source file:", actualFilePath);
@@ -753,9 +1430,35 @@ class UploadService {
       error: errorMsg,
       errorCode,
       isRateLimited,
+      isServerBusy: SERVER_BUSY_STATUSES.includes(statusCode),
     };
   }
 
+  /**
+   * TUS metadata for an upload, with a whole-file hash when the backend
+   * verifies checksums (sent on create, or with the final upload of a
+   * parallel one)
+   */
+  private async buildUploadMetadata(
+    filePath: string,
+    options: UploadOptions,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const { checksumAlgorithm } = await this.getCapabilities();
+    const checksum = checksumAlgorithm ? await hashFile(filePath, checksumAlgorithm, signal) : "";
+
+    return this.buildMetadata({
+      filename: options.filename,
+      filetype: options.mimeType,
+      language: options.language,
+      summarizationType: options.summarizationType,
+      title: options.title || "",
+      duration: options.duration ? String(options.duration) : "",
+      originalFilename: options.originalFilename || "",
+      checksum,
+    });
+  }
+
   /**
    * Build TUS metadata header (base64 encoded key-value pairs)
    */
@@ -771,10 +1474,10 @@ class UploadService {
    * @deprecated Use uploadWithTusStreaming instead
    */
   async uploadWithTus(
-    accessToken: string,
+    auth: AuthCredentials,
     fileBuffer: ArrayBuffer,
     options: UploadOptions,
-    onProgress?: (percent: number) => void
+    onProgress?: (progress: UploadProgress) => void
   ): Promise<UploadResult> {
     // Create a temporary file and use streaming upload
     const tempFile = path.join(os.tmpdir(), `tus-upload-${Date.now()}.tmp`);
@@ -783,7 +1486,7 @@ class UploadService {
 
     try {
       const result = await this.uploadWithTusStreaming(
-        accessToken,
+        auth,
         tempFile,
         fileBuffer.byteLength,
         options,
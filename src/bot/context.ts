@@ -1,8 +1,13 @@
 import { Context, SessionFlavor } from "grammy";
 import type { User, AuthTokens } from "../api/index.js";
+import type { TranscriptionLanguage } from "../api/upload.js";
+import type { Locale, Messages } from "../i18n/index.js";
+import type { TimeRange } from "../media/index.js";
 
-// Pending media info for type selection flow
+// Pending media info for type and language selection flow
 export interface PendingMedia {
+  id: string; // Short id used in callback data
+  createdAt: number;
   messageId: number;
   chatId: number;
   fileId: string;
@@ -10,16 +15,38 @@ export interface PendingMedia {
   fileSize?: number;
   mimeType?: string;
   duration?: number;
+  trim?: TimeRange; // Part of the recording to transcribe, if the user picked one
+  title?: string; // Lecture title, from the caption
+  summarizationType?: "lecture" | "custdev"; // Set once the content type is chosen
+  language?: TranscriptionLanguage; // Preselected with a caption directive
+}
+
+// A question asked in Q&A mode and the answer the backend gave
+export interface QaTurn {
+  question: string;
+  answer: string;
+}
+
+// Q&A conversation about one lecture - free text is sent as questions while set
+export interface QaSession {
+  lectureId: string;
+  title: string;
+  lastActivityAt: number; // The mode ends after a while without questions
+  history: QaTurn[]; // Latest turns, sent along so follow-up questions have context
 }
 
 // Session data stored per user
+// Persisted between restarts - add a migration in session.ts when changing its shape
 export interface SessionData {
   user?: User;
   tokens?: AuthTokens;
   isAuthenticated: boolean;
   isNewUser?: boolean;
-  pendingMedia?: PendingMedia;
-  isUploading?: boolean; // Track if an upload is currently in progress
+  pendingUploads?: PendingMedia[]; // Files waiting for type/language choice
+  trimPendingId?: string; // Pending upload whose time range the user is typing
+  qa?: QaSession; // Set while the user is asking questions about a lecture
+  locale?: Locale; // UI language chosen by the user (overrides Telegram language)
+  transcriptionLanguage?: TranscriptionLanguage; // Last transcription language picked, offered as default
 }
 
 // Default session data
@@ -31,5 +58,7 @@ export function createInitialSessionData(): SessionData {
 
 // Extended context with session
 export interface BotContext extends Context, SessionFlavor<SessionData> {
-  // Add custom context properties here as needed
+  // UI language and its messages, set by i18nMiddleware
+  locale: Locale;
+  t: Messages;
 }
@@ -14,18 +14,14 @@ export async function handleAccountLink(
   const user = ctx.from;
 
   if (!user) {
-    await ctx.reply(
-      "Xatolik yuz berdi. Iltimos, qaytadan urinib ko'ring.",
-      { parse_mode: "Markdown" }
-    );
+    await ctx.reply(ctx.t.accountLinking.error, { parse_mode: "Markdown" });
     return;
   }
 
   // Show processing message
-  const processingMsg = await ctx.reply(
-    "Hisoblarni ulash jarayoni...",
-    { parse_mode: "Markdown" }
-  );
+  const processingMsg = await ctx.reply(ctx.t.accountLinking.processing, {
+    parse_mode: "Markdown",
+  });
 
   try {
     // Get user's profile photo URL if available
@@ -60,21 +56,17 @@ export async function handleAccountLink(
 
     if (!response.success) {
       const errorCode = response.error?.code;
-      let errorMessage = "Hisoblarni ulashda xatolik yuz berdi.";
+      let errorMessage = ctx.t.accountLinking.failed;
 
       switch (errorCode) {
         case "INVALID_LINK_TOKEN":
-          errorMessage =
-            "Havola muddati tugagan yoki noto'g'ri.\n\n" +
-            "Iltimos, web ilovadan yangi havola oling.";
+          errorMessage = ctx.t.accountLinking.invalidToken;
           break;
         case "TELEGRAM_ALREADY_LINKED":
-          errorMessage =
-            "Bu Telegram hisobi allaqachon ulangan.\n\n" +
-            "Agar boshqa Google hisobiga ulashni xohlasangiz, avval joriy ulanishni bekor qiling.";
+          errorMessage = ctx.t.accountLinking.alreadyLinked;
           break;
         case "INVALID_LINK_TYPE":
-          errorMessage = "Noto'g'ri havola turi.";
+          errorMessage = ctx.t.accountLinking.invalidLinkType;
           break;
         default:
           errorMessage = response.error?.message || errorMessage;
@@ -87,22 +79,10 @@ export async function handleAccountLink(
     // Success!
     const { merged, message: _message } = response.data!;
 
-    let successMessage: string;
-    if (merged) {
-      successMessage =
-        "🎉 *Hisoblar muvaffaqiyatli birlashtirildi!*\n\n" +
-        "Telegram va Google hisoblaringiz birlashtirildi. " +
-        "Barcha ma'lumotlaringiz endi bir hisobda.\n\n" +
-        "Endi siz ikkala usul bilan ham tizimga kirishingiz mumkin.";
-    } else {
-      successMessage =
-        "✅ *Telegram hisobi muvaffaqiyatli ulandi!*\n\n" +
-        "Endi siz Google yoki Telegram orqali tizimga kirishingiz mumkin.\n\n" +
-        "Barcha ma'lumotlaringiz har ikki hisobda ham mavjud bo'ladi.";
-    }
+    const successMessage = merged ? ctx.t.accountLinking.merged : ctx.t.accountLinking.linked;
 
     const keyboard = new InlineKeyboard().webApp(
-      "🌐 Web ilovani ochish",
+      ctx.t.common.openWebApp,
       config.webAppUrl
     );
 
@@ -115,10 +95,7 @@ export async function handleAccountLink(
     await ctx.api.deleteMessage(ctx.chat!.id, processingMsg.message_id).catch(() => {});
 
     console.error("Account linking error:", error);
-    await ctx.reply(
-      "Hisoblarni ulashda xatolik yuz berdi. Iltimos, keyinroq qaytadan urinib ko'ring.",
-      { parse_mode: "Markdown" }
-    );
+    await ctx.reply(ctx.t.accountLinking.failedLater, { parse_mode: "Markdown" });
   }
 }
 
@@ -0,0 +1,202 @@
+import { InlineKeyboard } from "grammy";
+import type { NextFunction } from "grammy";
+import type { BotContext } from "../context.js";
+import { apiClient } from "../../api/client.js";
+import { sessionAuth } from "../middlewares/auth.js";
+import { splitText } from "../text.js";
+import { ensureAuthenticated, getLectureTitle, handleUserNotFound, parseLectureId } from "./lectures.js";
+
+// Q&A mode ends after this long without a question
+const QA_TIMEOUT_MS = 15 * 60 * 1000;
+// Earlier turns sent along with a question (and kept in the session)
+const MAX_HISTORY_TURNS = 3;
+const MAX_QUESTION_LENGTH = 1000;
+
+function getExitKeyboard(ctx: BotContext): InlineKeyboard {
+  return new InlineKeyboard().text(ctx.t.ask.exit, "ask_exit");
+}
+
+// Backend lecture IDs are UUIDs
+const LECTURE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a command's first word is a lecture ID (or lecture_<id> link)
+ * rather than the start of a question like "/ask 3 main points?"
+ */
+function looksLikeLectureId(word: string): boolean {
+  return word.startsWith("lecture_") || LECTURE_ID_PATTERN.test(word);
+}
+
+/**
+ * /ask <id> [question] command - Start asking questions about a lecture
+ * Without an ID, the text is asked about the current lecture, or the user is
+ * reminded which lecture they're asking about.
+ */
+export async function handleAsk(ctx: BotContext): Promise<void> {
+  const text = (typeof ctx.match === "string" ? ctx.match : "").trim();
+  const [argument = "", ...rest] = text.split(/\s+/);
+  const lectureId = looksLikeLectureId(argument) ? parseLectureId(argument) : undefined;
+
+  if (!lectureId) {
+    const qa = ctx.session.qa;
+    if (qa && Date.now() - qa.lastActivityAt <= QA_TIMEOUT_MS) {
+      if (text) {
+        await answerQuestion(ctx, text);
+      } else {
+        await ctx.reply(ctx.t.ask.active(qa.title), { reply_markup: getExitKeyboard(ctx) });
+      }
+    } else {
+      await ctx.reply(ctx.t.ask.usage);
+    }
+    return;
+  }
+
+  if (!(await startQa(ctx, lectureId))) return;
+
+  const question = rest.join(" ");
+  if (question) {
+    await answerQuestion(ctx, question);
+  }
+}
+
+/**
+ * Handle the Ask button of notifications and the detail view (ask:<id>)
+ */
+export async function handleAskStart(ctx: BotContext): Promise<void> {
+  const lectureId = ctx.callbackQuery?.data?.split(":")[1];
+  if (!lectureId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  await startQa(ctx, lectureId);
+}
+
+/**
+ * Leave Q&A mode (ask_exit button or /exit)
+ */
+export async function handleAskExit(ctx: BotContext): Promise<void> {
+  ctx.session.qa = undefined;
+
+  if (ctx.callbackQuery) {
+    await ctx.answerCallbackQuery();
+    try {
+      await ctx.editMessageReplyMarkup({ reply_markup: undefined });
+    } catch {
+      // Keyboard already gone
+    }
+  }
+  await ctx.reply(ctx.t.ask.exited);
+}
+
+/**
+ * Send text messages as questions while Q&A mode is on
+ * Other text messages are passed on to the next handler.
+ */
+export async function handleQuestion(ctx: BotContext, next: NextFunction): Promise<void> {
+  const text = ctx.message?.text;
+  const qa = ctx.session.qa;
+  // Unknown commands aren't questions
+  if (!text || !qa || text.startsWith("/")) {
+    await next();
+    return;
+  }
+
+  if (Date.now() - qa.lastActivityAt > QA_TIMEOUT_MS) {
+    ctx.session.qa = undefined;
+    await ctx.reply(ctx.t.ask.expired(qa.title));
+    return;
+  }
+
+  await answerQuestion(ctx, text);
+}
+
+/**
+ * Turn Q&A mode on for a finished lecture. Returns false if it can't be.
+ */
+async function startQa(ctx: BotContext, lectureId: string): Promise<boolean> {
+  if (!(await ensureAuthenticated(ctx))) return false;
+
+  const response = await apiClient.getLecture(sessionAuth(ctx), lectureId);
+
+  if (!response.success || !response.data) {
+    if (response.error?.code === "USER_NOT_FOUND") {
+      if (ctx.callbackQuery) await ctx.answerCallbackQuery();
+      await handleUserNotFound(ctx);
+      return false;
+    }
+    if (ctx.callbackQuery) {
+      await ctx.answerCallbackQuery(ctx.t.lectures.notFound);
+    } else {
+      await ctx.reply(ctx.t.lectures.notFound);
+    }
+    return false;
+  }
+
+  const lecture = response.data.lecture;
+  if (lecture.status !== "completed") {
+    if (ctx.callbackQuery) {
+      await ctx.answerCallbackQuery(ctx.t.lectures.notReady);
+    } else {
+      await ctx.reply(ctx.t.lectures.notReady);
+    }
+    return false;
+  }
+
+  if (ctx.callbackQuery) {
+    await ctx.answerCallbackQuery();
+  }
+
+  const title = getLectureTitle(ctx.t, lecture);
+  ctx.session.qa = { lectureId: lecture.id, title, lastActivityAt: Date.now(), history: [] };
+
+  // Plain text - the title is user input
+  await ctx.reply(ctx.t.ask.started(title), { reply_markup: getExitKeyboard(ctx) });
+  return true;
+}
+
+async function answerQuestion(ctx: BotContext, question: string): Promise<void> {
+  const qa = ctx.session.qa;
+  if (!qa) return;
+  if (!(await ensureAuthenticated(ctx))) return;
+
+  if (question.length > MAX_QUESTION_LENGTH) {
+    await ctx.reply(ctx.t.ask.tooLong(MAX_QUESTION_LENGTH));
+    return;
+  }
+
+  qa.lastActivityAt = Date.now();
+  await ctx.replyWithChatAction("typing");
+
+  const response = await apiClient.askLecture(sessionAuth(ctx), qa.lectureId, {
+    question,
+    history: qa.history,
+  });
+
+  if (!response.success || !response.data) {
+    if (response.error?.code === "USER_NOT_FOUND") {
+      ctx.session.qa = undefined;
+      await handleUserNotFound(ctx);
+      return;
+    }
+    await ctx.reply(ctx.t.ask.failed, { reply_markup: getExitKeyboard(ctx) });
+    return;
+  }
+
+  const answer = response.data.answer.trim();
+  qa.history = [...qa.history, { question, answer }].slice(-MAX_HISTORY_TURNS);
+
+  // Plain text - answers are generated and may contain any characters.
+  // The first part replies to the question, so answers stay matched up.
+  const questionMessageId = ctx.message?.message_id;
+  const parts = splitText(answer || ctx.t.ask.failed);
+  for (const [index, part] of parts.entries()) {
+    await ctx.reply(part, {
+      reply_markup: index === parts.length - 1 ? getExitKeyboard(ctx) : undefined,
+      reply_parameters:
+        index === 0 && questionMessageId
+          ? { message_id: questionMessageId, allow_sending_without_reply: true }
+          : undefined,
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { InlineKeyboard } from "grammy";
 import type { BotContext } from "../context.js";
 import { apiClient } from "../../api/client.js";
+import { sessionAuth } from "../middlewares/auth.js";
 
 /**
  * Create a visual progress bar
@@ -17,11 +18,11 @@ function createProgressBar(used: number, total: number): string {
 }
 
 /**
- * Format date to Uzbek locale
+ * Format date in the user's locale
  */
-function formatDate(dateString: string): string {
+function formatDate(dateString: string, dateLocale: string): string {
   const date = new Date(dateString);
-  return date.toLocaleDateString("uz-UZ", {
+  return date.toLocaleDateString(dateLocale, {
     year: "numeric",
     month: "long",
     day: "numeric",
@@ -49,7 +50,7 @@ export async function handleShowBalance(ctx: BotContext): Promise<void> {
 async function showBalance(ctx: BotContext, isCallback: boolean): Promise<void> {
   // Check if user is authenticated
   if (!ctx.session.isAuthenticated || !ctx.session.tokens) {
-    const message = "Iltimos, avval /start buyrug'ini yuboring";
+    const message = ctx.t.common.startFirst;
     if (isCallback) {
       await ctx.answerCallbackQuery(message);
     } else {
@@ -59,7 +60,7 @@ async function showBalance(ctx: BotContext, isCallback: boolean): Promise<void>
   }
 
   try {
-    const response = await apiClient.getBalance(ctx.session.tokens.accessToken);
+    const response = await apiClient.getBalance(sessionAuth(ctx));
 
     if (!response.success || !response.data) {
       // Check if user no longer exists (deleted after account merge)
@@ -69,7 +70,7 @@ async function showBalance(ctx: BotContext, isCallback: boolean): Promise<void>
         ctx.session.tokens = undefined;
         ctx.session.user = undefined;
 
-        const message = "Sizning sessiyangiz yaroqsiz. Iltimos, /start buyrug'ini yuboring.";
+        const message = ctx.t.common.sessionInvalid;
         if (isCallback) {
           await ctx.answerCallbackQuery(message);
         } else {
@@ -78,7 +79,7 @@ async function showBalance(ctx: BotContext, isCallback: boolean): Promise<void>
         return;
       }
 
-      const errorMessage = "❌ Balansni olishda xatolik yuz berdi.";
+      const errorMessage = ctx.t.balance.fetchError;
       if (isCallback) {
         try {
           await ctx.editMessageText(errorMessage);
@@ -99,20 +100,20 @@ async function showBalance(ctx: BotContext, isCallback: boolean): Promise<void>
       (new Date(balance.billingCycleEnd).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
     );
 
-    const message =
-      `📊 *Sizning balansigiz*\n\n` +
-      `📦 Tarif: *${balance.planDisplayName}*\n\n` +
-      `*Tarif daqiqalari:*\n` +
-      `${progressBar}\n` +
-      `${balance.planMinutesRemaining}/${balance.planMinutesTotal} daqiqa\n\n` +
-      `*Bonus daqiqalar:* ${balance.bonusMinutes} daqiqa\n\n` +
-      `*Jami mavjud:* ${balance.totalAvailable} daqiqa\n\n` +
-      `📅 Keyingi yangilanish: ${daysRemaining} kundan keyin\n` +
-      `(${formatDate(balance.billingCycleEnd)})`;
+    const message = ctx.t.balance.summary({
+      planName: balance.planDisplayName,
+      progressBar,
+      planRemaining: balance.planMinutesRemaining,
+      planTotal: balance.planMinutesTotal,
+      bonus: balance.bonusMinutes,
+      total: balance.totalAvailable,
+      daysRemaining,
+      renewalDate: formatDate(balance.billingCycleEnd, ctx.t.dateLocale),
+    });
 
     const keyboard = new InlineKeyboard()
-      .text("📦 Tariflar", "back_to_plans")
-      .text("➕ Daqiqa sotib olish", "packages_menu");
+      .text(ctx.t.balance.plans, "back_to_plans")
+      .text(ctx.t.balance.buyMinutes, "packages_menu");
 
     if (isCallback) {
       // Check if current message is a photo (has caption) or text message
@@ -146,7 +147,7 @@ async function showBalance(ctx: BotContext, isCallback: boolean): Promise<void>
     }
   } catch (error) {
     console.error("Error fetching balance:", error);
-    const errorMessage = "❌ Balansni olishda xatolik yuz berdi.";
+    const errorMessage = ctx.t.balance.fetchError;
     if (isCallback) {
       try {
         await ctx.editMessageText(errorMessage);
@@ -168,12 +169,12 @@ export async function checkMinutesForUpload(
   estimatedDurationSeconds: number
 ): Promise<boolean> {
   if (!ctx.session.isAuthenticated || !ctx.session.tokens) {
-    await ctx.reply("Iltimos, avval /start buyrug'ini yuboring");
+    await ctx.reply(ctx.t.common.startFirst);
     return false;
   }
 
   try {
-    const response = await apiClient.getBalance(ctx.session.tokens.accessToken);
+    const response = await apiClient.getBalance(sessionAuth(ctx));
 
     if (!response.success || !response.data) {
       // Check if user no longer exists (deleted after account merge)
@@ -181,7 +182,7 @@ export async function checkMinutesForUpload(
         ctx.session.isAuthenticated = false;
         ctx.session.tokens = undefined;
         ctx.session.user = undefined;
-        await ctx.reply("Sizning sessiyangiz yaroqsiz. Iltimos, /start buyrug'ini yuboring.");
+        await ctx.reply(ctx.t.common.sessionInvalid);
         return false;
       }
       // If we can't check, allow the upload (backend will handle it)
@@ -192,15 +193,11 @@ export async function checkMinutesForUpload(
     const estimatedMinutes = Math.ceil(estimatedDurationSeconds / 60);
 
     if (balance.totalAvailable < estimatedMinutes) {
-      const message =
-        `⚠️ *Yetarli daqiqalar yo'q*\n\n` +
-        `Bu video uchun taxminan *${estimatedMinutes} daqiqa* kerak.\n` +
-        `Sizda faqat *${balance.totalAvailable} daqiqa* mavjud.\n\n` +
-        `Iltimos, qo'shimcha daqiqa sotib oling yoki tarifingizni yangilang.`;
+      const message = ctx.t.balance.notEnoughMinutes(estimatedMinutes, balance.totalAvailable);
 
       const keyboard = new InlineKeyboard()
-        .text("📦 Tariflar", "back_to_plans")
-        .text("➕ Daqiqa sotib olish", "packages_menu");
+        .text(ctx.t.balance.plans, "back_to_plans")
+        .text(ctx.t.balance.buyMinutes, "packages_menu");
 
       await ctx.reply(message, {
         parse_mode: "Markdown",
@@ -2,26 +2,28 @@ import { InputFile, InlineKeyboard, Keyboard } from "grammy";
 import path from "path";
 import type { BotContext } from "../context.js";
 import { config } from "../../config.js";
+import { inAllLocales } from "../../i18n/index.js";
+import type { Messages } from "../../i18n/index.js";
 import {
   handleAccountLink,
   isAccountLinkToken,
   extractLinkToken,
 } from "./accountLinking.js";
 
-// Button text constants for text buttons
-export const BUTTON_TRANSCRIBE = "🎬 Transkriptsiya";
-export const BUTTON_BALANCE = "📊 Balans";
-export const BUTTON_PLANS = "📦 Tariflar";
+// Text button labels in every locale (the keyboard may predate a language change)
+export const BUTTON_TRANSCRIBE = inAllLocales((m) => m.buttons.transcribe);
+export const BUTTON_BALANCE = inAllLocales((m) => m.buttons.balance);
+export const BUTTON_PLANS = inAllLocales((m) => m.buttons.plans);
 
 /**
  * Create persistent reply keyboard (text buttons at bottom)
  */
-export function getMainReplyKeyboard(): Keyboard {
+export function getMainReplyKeyboard(t: Messages): Keyboard {
   return new Keyboard()
-    .text(BUTTON_TRANSCRIBE)
+    .text(t.buttons.transcribe)
     .row()
-    .text(BUTTON_BALANCE)
-    .text(BUTTON_PLANS)
+    .text(t.buttons.balance)
+    .text(t.buttons.plans)
     .resized()
     .persistent();
 }
@@ -29,30 +31,20 @@ export function getMainReplyKeyboard(): Keyboard {
 const IMAGES_DIR = path.join(process.cwd(), "public", "images");
 const WEB_APP_URL = config.webAppUrl;
 
-// Onboarding slides
-const SLIDE1_CAPTION =
-  "🎯 *2 soatlik majlis → 2 daqiqada xulosa*\n\n" +
-  "✅ O'zbek, rus, ingliz tillarida transkriptsiya\n" +
-  "✅ AI xulosa va asosiy fikrlar\n" +
-  "✅ CustDev intervyu tahlili";
-
-const SLIDE2_CAPTION =
-  "📤 *Shunchaki video yoki audio yuboring — qolganini biz qilamiz!*";
-
 /**
  * Create main menu keyboard
  */
-function getMainMenuKeyboard(): InlineKeyboard {
+function getMainMenuKeyboard(t: Messages): InlineKeyboard {
   return new InlineKeyboard()
-    .text("🎬 Transkriptsiya qilish", "transcribe_video")
+    .text(t.menu.transcribe, "transcribe_video")
     .row()
-    .text("📊 Balans", "show_balance")
-    .text("📦 Tariflar", "show_plans")
+    .text(t.menu.balance, "show_balance")
+    .text(t.menu.plans, "show_plans")
     .row()
-    .text("ℹ️ Qo'llanma", "show_info")
-    .text("⚙️ Sozlamalar", "show_settings")
+    .text(t.menu.info, "show_info")
+    .text(t.menu.settings, "show_settings")
     .row()
-    .webApp("🌐 Web ilovani ochish", WEB_APP_URL);
+    .webApp(t.common.openWebApp, WEB_APP_URL);
 }
 
 export async function handleStart(ctx: BotContext): Promise<void> {
@@ -69,27 +61,27 @@ export async function handleStart(ctx: BotContext): Promise<void> {
   if (startParam?.startsWith("lecture_")) {
     const lectureId = startParam.replace("lecture_", "");
     const keyboard = new InlineKeyboard().webApp(
-      "Ma'ruzani ko'rish",
+      ctx.t.start.viewLecture,
       `${WEB_APP_URL}?startapp=lecture_${lectureId}`
     );
 
-    await ctx.reply("Ma'ruzani ko'rish uchun tugmani bosing:", { reply_markup: keyboard });
+    await ctx.reply(ctx.t.start.viewLecturePrompt, { reply_markup: keyboard });
     return;
   }
 
   // Send slide 1 with intro info
   const slide1Path = path.join(IMAGES_DIR, "slide1.PNG");
   const slide1Message = await ctx.replyWithPhoto(new InputFile(slide1Path), {
-    caption: SLIDE1_CAPTION,
+    caption: ctx.t.start.slide1Caption,
     parse_mode: "Markdown",
   });
 
   // Send slide 2 with CTA and inline keyboard, replying to slide 1
   const slide2Path = path.join(IMAGES_DIR, "slide2.PNG");
   await ctx.replyWithPhoto(new InputFile(slide2Path), {
-    caption: SLIDE2_CAPTION,
+    caption: ctx.t.start.slide2Caption,
     parse_mode: "Markdown",
-    reply_markup: getMainMenuKeyboard(),
+    reply_markup: getMainMenuKeyboard(ctx.t),
     reply_parameters: { message_id: slide1Message.message_id },
   });
 }
@@ -98,14 +90,7 @@ export async function handleStart(ctx: BotContext): Promise<void> {
  * Handle text button: Transcribe
  */
 export async function handleTextTranscribe(ctx: BotContext): Promise<void> {
-  const message =
-    "🎬 *Video/audio transkriptsiya qilish*\n\n" +
-    "1️⃣ Menga video yoki audio fayl yuboring\n" +
-    "2️⃣ Kontent turini tanlang (Ma'ruza yoki CustDev)\n" +
-    "3️⃣ AI transkriptsiya va xulosa tayyorlaydi\n\n" +
-    "📎 Qo'llab-quvvatlanadigan formatlar: MP4, MP3, WAV, M4A, OGG";
-
-  await ctx.reply(message, { parse_mode: "Markdown" });
+  await ctx.reply(ctx.t.commands.transcribeGuide, { parse_mode: "Markdown" });
 }
 
 /**
@@ -114,14 +99,7 @@ export async function handleTextTranscribe(ctx: BotContext): Promise<void> {
 export async function handleTranscribeVideo(ctx: BotContext): Promise<void> {
   await ctx.answerCallbackQuery();
 
-  const message =
-    "🎬 *Video/audio transkriptsiya qilish*\n\n" +
-    "1️⃣ Menga video yoki audio fayl yuboring\n" +
-    "2️⃣ Kontent turini tanlang (Ma'ruza yoki CustDev)\n" +
-    "3️⃣ AI transkriptsiya va xulosa tayyorlaydi\n\n" +
-    "📎 Qo'llab-quvvatlanadigan formatlar: MP4, MP3, WAV, M4A, OGG";
-
-  await ctx.reply(message, { parse_mode: "Markdown" });
+  await ctx.reply(ctx.t.commands.transcribeGuide, { parse_mode: "Markdown" });
 }
 
 /**
@@ -135,19 +113,13 @@ export async function handleShowPlans(ctx: BotContext): Promise<void> {
 }
 
 export async function handleHelp(ctx: BotContext): Promise<void> {
-  await ctx.reply(
-    "Majleesdan dan qanday foydalanish:\n\n" +
-      "1. Menyu tugmasini yoki \"Ilovani ochish\" tugmasini bosing\n" +
-      "2. Audio/video ma'ruzangizni yuklang\n" +
-      "3. Transkriptsiya, xulosa va asosiy fikrlarni oling\n\n" +
-      "Qo'llab-quvvatlanadigan formatlar: MP3, WAV, M4A, MP4 va boshqalar."
-  );
+  await ctx.reply(ctx.t.commands.help);
 }
 
 export async function handleApp(ctx: BotContext): Promise<void> {
-  const keyboard = new InlineKeyboard().webApp("Majleesni ochish", WEB_APP_URL);
+  const keyboard = new InlineKeyboard().webApp(ctx.t.commands.openApp, WEB_APP_URL);
 
-  await ctx.reply("Ilovani ochish uchun quyidagi tugmani bosing:", {
+  await ctx.reply(ctx.t.commands.openAppPrompt, {
     reply_markup: keyboard,
   });
 }
@@ -0,0 +1,190 @@
+import { InlineKeyboard, InputFile } from "grammy";
+import type { BotContext } from "../context.js";
+import { apiClient } from "../../api/client.js";
+import type { Lecture, LectureSummaryResponse, LectureTranscriptResponse } from "../../api/index.js";
+import { sessionAuth } from "../middlewares/auth.js";
+import type { Messages } from "../../i18n/index.js";
+import {
+  EXPORT_FORMATS,
+  buildExport,
+  isExportFormat,
+  isExportFormatAvailable,
+  isSubtitleFormat,
+} from "../../export/index.js";
+import type { ExportContent, ExportSection } from "../../export/index.js";
+import { getSummarizationTypeName } from "../uploads/index.js";
+import {
+  ensureAuthenticated,
+  formatDate,
+  getLectureTitle,
+  handleUserNotFound,
+  parseLectureId,
+} from "./lectures.js";
+
+const FORMAT_LABELS = {
+  txt: "📄 TXT",
+  srt: "🎬 SRT",
+  vtt: "🎬 VTT",
+  docx: "📝 DOCX",
+  pdf: "📕 PDF",
+} as const;
+
+/**
+ * /export <id> command - Choose a format to download a recording in
+ */
+export async function handleExport(ctx: BotContext): Promise<void> {
+  const lectureId = parseLectureId(typeof ctx.match === "string" ? ctx.match : "");
+  if (!lectureId) {
+    await ctx.reply(ctx.t.export.usage);
+    return;
+  }
+
+  await showExportFormats(ctx, lectureId);
+}
+
+/**
+ * Handle the Export button of notifications and the detail view (export:<id>)
+ */
+export async function handleExportMenu(ctx: BotContext): Promise<void> {
+  const lectureId = ctx.callbackQuery?.data?.split(":")[1];
+  if (!lectureId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  await showExportFormats(ctx, lectureId);
+}
+
+async function showExportFormats(ctx: BotContext, lectureId: string): Promise<void> {
+  if (!(await ensureAuthenticated(ctx))) return;
+
+  const response = await apiClient.getLecture(sessionAuth(ctx), lectureId);
+
+  if (!response.success || !response.data) {
+    if (response.error?.code === "USER_NOT_FOUND") {
+      if (ctx.callbackQuery) await ctx.answerCallbackQuery();
+      await handleUserNotFound(ctx);
+      return;
+    }
+    if (ctx.callbackQuery) {
+      await ctx.answerCallbackQuery(ctx.t.lectures.notFound);
+    } else {
+      await ctx.reply(ctx.t.lectures.notFound);
+    }
+    return;
+  }
+
+  const lecture = response.data.lecture;
+  if (lecture.status !== "completed") {
+    if (ctx.callbackQuery) {
+      await ctx.answerCallbackQuery(ctx.t.lectures.notReady);
+    } else {
+      await ctx.reply(ctx.t.lectures.notReady);
+    }
+    return;
+  }
+
+  if (ctx.callbackQuery) {
+    await ctx.answerCallbackQuery();
+  }
+
+  const keyboard = new InlineKeyboard();
+  for (const format of EXPORT_FORMATS) {
+    if (await isExportFormatAvailable(format)) {
+      keyboard.text(FORMAT_LABELS[format], `export_format:${lecture.id}:${format}`);
+    }
+  }
+
+  // Plain text - the title is user input
+  await ctx.reply(ctx.t.export.chooseFormat(getLectureTitle(ctx.t, lecture)), { reply_markup: keyboard });
+}
+
+/**
+ * Handle format selection (export_format:<id>:<format>)
+ */
+export async function handleExportFormat(ctx: BotContext): Promise<void> {
+  const [, lectureId, format] = ctx.callbackQuery?.data?.split(":") ?? [];
+  if (!lectureId || !isExportFormat(format)) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  if (!(await ensureAuthenticated(ctx))) return;
+
+  await ctx.answerCallbackQuery(ctx.t.export.preparing);
+  await ctx.replyWithChatAction("upload_document");
+
+  const auth = sessionAuth(ctx);
+  const [lectureResponse, summaryResponse, transcriptResponse] = await Promise.all([
+    apiClient.getLecture(auth, lectureId),
+    apiClient.getLectureSummary(auth, lectureId),
+    apiClient.getLectureTranscript(auth, lectureId),
+  ]);
+
+  if (!lectureResponse.success || !lectureResponse.data) {
+    if (lectureResponse.error?.code === "USER_NOT_FOUND") {
+      await handleUserNotFound(ctx);
+    } else {
+      await ctx.reply(ctx.t.lectures.notFound);
+    }
+    return;
+  }
+
+  const lecture = lectureResponse.data.lecture;
+  if (lecture.status !== "completed") {
+    await ctx.reply(ctx.t.lectures.notReady);
+    return;
+  }
+
+  if (!summaryResponse.success || !summaryResponse.data || !transcriptResponse.success || !transcriptResponse.data) {
+    await ctx.reply(ctx.t.lectures.contentError);
+    return;
+  }
+
+  const content = getExportContent(ctx.t, lecture, summaryResponse.data, transcriptResponse.data);
+  if (isSubtitleFormat(format) && content.segments.length === 0) {
+    await ctx.reply(ctx.t.export.noTimestamps);
+    return;
+  }
+
+  try {
+    const file = await buildExport(content, format);
+    await ctx.replyWithDocument(new InputFile(file.data, file.fileName), { caption: content.title });
+  } catch (error) {
+    console.error("Failed to export lecture " + lecture.id + " as " + format + ":", error);
+    await ctx.reply(ctx.t.export.failed);
+  }
+}
+
+function getExportContent(
+  t: Messages,
+  lecture: Lecture,
+  summary: LectureSummaryResponse,
+  transcript: LectureTranscriptResponse
+): ExportContent {
+  const segments = transcript.segments ?? [];
+  const transcriptText = transcript.transcript?.trim() || segments.map((segment) => segment.text.trim()).join("\n");
+
+  const sections: ExportSection[] = [
+    { heading: t.export.headings.summary, paragraphs: toParagraphs(summary.summary ?? "") },
+    {
+      heading: t.export.headings.keyPoints,
+      paragraphs: summary.keyPoints.map((point) => point.trim()).filter(Boolean).map((point) => "• " + point),
+    },
+    { heading: t.export.headings.transcript, paragraphs: toParagraphs(transcriptText) },
+  ];
+
+  return {
+    title: getLectureTitle(t, lecture),
+    subtitle: `${getSummarizationTypeName(t, lecture.summarizationType)} · ${formatDate(lecture.createdAt, t.dateLocale)}`,
+    sections: sections.filter((section) => section.paragraphs.length > 0),
+    segments,
+  };
+}
+
+function toParagraphs(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
@@ -9,7 +9,14 @@ export {
   BUTTON_BALANCE,
   BUTTON_PLANS,
 } from "./commands.js";
-export { handleMedia, handleTypeSelection } from "./media.js";
+export {
+  handleMedia,
+  handleTypeSelection,
+  handleTranscriptionLanguageSelection,
+  handleUploadCancel,
+  handleTrimRequest,
+  handleTrimRange,
+} from "./media.js";
 export {
   handlePricing,
   handlePlanSelection,
@@ -19,6 +26,18 @@ export {
   handleBuyPlan,
   handleBuyPackage,
 } from "./pricing.js";
+export {
+  handleLectures,
+  handleLecturesPage,
+  handleLectureDetail,
+  handleLectureSection,
+  addLectureSectionButtons,
+  getLectureWebAppUrl,
+} from "./lectures.js";
+export { handleExport, handleExportMenu, handleExportFormat } from "./export.js";
+export { handleInlineQuery } from "./inline.js";
+export { handleAsk, handleAskStart, handleAskExit, handleQuestion } from "./ask.js";
+export { handleStatus } from "./status.js";
 export { handleBalance, handleShowBalance, checkMinutesForUpload } from "./balance.js";
 export {
   handleAccountLink,
@@ -34,4 +53,7 @@ export {
   handleUnlinkGoogle,
   handleBackToSettings,
   handleBackToMain,
+  handleLanguage,
+  handleShowLanguage,
+  handleLanguageSelection,
 } from "./settings.js";
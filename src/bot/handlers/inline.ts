@@ -0,0 +1,86 @@
+import { InlineKeyboard, InlineQueryResultBuilder } from "grammy";
+import type { InlineQueryResult } from "grammy/types";
+import type { BotContext } from "../context.js";
+import { apiClient } from "../../api/client.js";
+import type { LectureSearchResult } from "../../api/index.js";
+import { sessionAuth } from "../middlewares/auth.js";
+import type { Messages } from "../../i18n/index.js";
+import { getSummarizationTypeName } from "../uploads/index.js";
+import { MAX_MESSAGE_LENGTH, escapeHtml, splitText } from "../text.js";
+import { formatDate, getLectureTitle, getLectureWebAppUrl } from "./lectures.js";
+
+// Telegram shows at most 50 results per answer
+const RESULTS_PER_PAGE = 20;
+// Results are per user, so they are only cached briefly
+const CACHE_SECONDS = 10;
+const MAX_DESCRIPTION_LENGTH = 120;
+// Room for the title and date line above the summary
+const MESSAGE_HEADER_RESERVE = 400;
+
+/**
+ * Inline mode (@bot <query>) - Search the user's lectures and share a summary
+ * An empty query lists the latest lectures.
+ */
+export async function handleInlineQuery(ctx: BotContext): Promise<void> {
+  const inlineQuery = ctx.inlineQuery;
+  if (!inlineQuery) return;
+
+  const openBot = { text: ctx.t.inline.openBot, start_parameter: "inline" };
+
+  if (!ctx.session.isAuthenticated || !ctx.session.tokens) {
+    await ctx.answerInlineQuery([], { button: openBot, cache_time: 0, is_personal: true });
+    return;
+  }
+
+  const offset = parseInt(inlineQuery.offset, 10) || 0;
+  const response = await apiClient.searchLectures(sessionAuth(ctx), {
+    query: inlineQuery.query.trim(),
+    limit: RESULTS_PER_PAGE,
+    offset,
+  });
+
+  if (!response.success || !response.data) {
+    console.error("Inline search failed for " + inlineQuery.from.id + ":", response.error?.message);
+    await ctx.answerInlineQuery([], { button: openBot, cache_time: 0, is_personal: true });
+    return;
+  }
+
+  const { results } = response.data;
+  // Only finished lectures have a summary worth sharing
+  const articles = results
+    .filter((lecture) => lecture.status === "completed")
+    .map((lecture) => buildArticle(ctx.t, lecture));
+
+  await ctx.answerInlineQuery(articles, {
+    cache_time: CACHE_SECONDS,
+    is_personal: true,
+    next_offset: results.length === RESULTS_PER_PAGE ? String(offset + RESULTS_PER_PAGE) : "",
+    button: articles.length === 0 && offset === 0 ? { ...openBot, text: ctx.t.inline.noResults } : undefined,
+  });
+}
+
+function buildArticle(t: Messages, lecture: LectureSearchResult): InlineQueryResult {
+  const title = getLectureTitle(t, lecture);
+  const details = `${getSummarizationTypeName(t, lecture.summarizationType)} · ${formatDate(lecture.createdAt, t.dateLocale)}`;
+  const summary = lecture.summary?.trim() ?? "";
+
+  let message = `<b>${escapeHtml(title)}</b>\n${escapeHtml(details)}`;
+  if (summary) {
+    const [firstPart = ""] = splitText(summary, MAX_MESSAGE_LENGTH - MESSAGE_HEADER_RESERVE);
+    message += "\n\n" + escapeHtml(firstPart) + (firstPart.length < summary.length ? "…" : "");
+  }
+
+  // Web-app buttons only work in the private chat with the bot, so shared
+  // messages link to the web app by URL
+  const keyboard = new InlineKeyboard().url(t.lectures.openInApp, getLectureWebAppUrl(lecture.id));
+
+  return InlineQueryResultBuilder.article(lecture.id, title, {
+    description: truncateLine(lecture.snippet?.trim() || summary || details, MAX_DESCRIPTION_LENGTH),
+    reply_markup: keyboard,
+  }).text(message, { parse_mode: "HTML" });
+}
+
+function truncateLine(text: string, maxLength: number): string {
+  const line = text.replace(/\s+/g, " ");
+  return line.length > maxLength ? line.slice(0, maxLength - 1) + "…" : line;
+}
@@ -0,0 +1,391 @@
+import { InlineKeyboard } from "grammy";
+import type { BotContext } from "../context.js";
+import { apiClient } from "../../api/client.js";
+import type {
+  LectureListItem,
+  LectureSummaryResponse,
+  LectureTranscriptResponse,
+  SummarizationType,
+} from "../../api/index.js";
+import { sessionAuth } from "../middlewares/auth.js";
+import { config } from "../../config.js";
+import type { Messages } from "../../i18n/index.js";
+import { formatTimestamp } from "../../media/index.js";
+import { getSummarizationTypeName } from "../uploads/index.js";
+import { MAX_MESSAGE_LENGTH, escapeHtml, splitText } from "../text.js";
+
+const PAGE_SIZE = 5;
+// Longer titles are cut in list buttons (Telegram shows about one line)
+const MAX_BUTTON_TITLE_LENGTH = 40;
+
+// Transcripts of long recordings beyond this many messages are left to the web app
+const MAX_SECTION_MESSAGES = 10;
+// Room kept for the part counter in section headers, e.g. " (10/10)"
+const PART_COUNTER_RESERVE = 10;
+
+type LectureFilter = "all" | SummarizationType;
+const LECTURE_FILTERS: readonly LectureFilter[] = ["all", "lecture", "custdev"];
+
+type LectureSection = "summary" | "points" | "transcript";
+const LECTURE_SECTIONS: readonly LectureSection[] = ["summary", "points", "transcript"];
+
+function isLectureSection(value: string | undefined): value is LectureSection {
+  return !!value && (LECTURE_SECTIONS as readonly string[]).includes(value);
+}
+
+function isLectureFilter(value: string | undefined): value is LectureFilter {
+  return !!value && (LECTURE_FILTERS as readonly string[]).includes(value);
+}
+
+function getTypeEmoji(summarizationType: SummarizationType): string {
+  return summarizationType === "custdev" ? "🎯" : "📚";
+}
+
+/**
+ * Short date in the user's locale
+ */
+export function formatDate(dateString: string, dateLocale: string): string {
+  return new Date(dateString).toLocaleDateString(dateLocale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Lecture ID from a command argument - a bare ID or a lecture_<id> deep link
+ */
+export function parseLectureId(text: string): string | undefined {
+  const deepLink = text.match(/lecture_([A-Za-z0-9-]+)/);
+  if (deepLink) return deepLink[1];
+
+  const id = text.trim();
+  return /^[A-Za-z0-9-]+$/.test(id) ? id : undefined;
+}
+
+/**
+ * Deep link that opens a lecture in the web app
+ */
+export function getLectureWebAppUrl(lectureId: string): string {
+  return config.webAppUrl + "?startapp=lecture_" + lectureId;
+}
+
+function getSectionName(t: Messages, section: LectureSection): string {
+  const names: Record<LectureSection, string> = {
+    summary: t.lectures.sections.summary,
+    points: t.lectures.sections.keyPoints,
+    transcript: t.lectures.sections.transcript,
+  };
+  return names[section];
+}
+
+/**
+ * Buttons that show a finished lecture's summary, key points or transcript in the chat
+ * From the detail view and notifications they send new messages (lecture_view),
+ * under a section they replace it (lecture_switch).
+ */
+export function addLectureSectionButtons(
+  keyboard: InlineKeyboard,
+  t: Messages,
+  lectureId: string,
+  current?: LectureSection
+): InlineKeyboard {
+  const action = current ? "lecture_switch" : "lecture_view";
+  for (const section of LECTURE_SECTIONS) {
+    const label = (section === current ? "✓ " : "") + getSectionName(t, section);
+    keyboard.text(label, `${action}:${lectureId}:${section}`);
+  }
+  return keyboard.row();
+}
+
+/**
+ * Reply, or edit the message the button belongs to
+ */
+async function respond(ctx: BotContext, text: string, keyboard?: InlineKeyboard): Promise<void> {
+  if (ctx.callbackQuery) {
+    try {
+      await ctx.editMessageText(text, { reply_markup: keyboard });
+      return;
+    } catch {
+      // Message can't be edited (too old or a photo) - send a new one
+    }
+  }
+  await ctx.reply(text, { reply_markup: keyboard });
+}
+
+/**
+ * Check the user can browse lectures, telling them why not otherwise
+ */
+export async function ensureAuthenticated(ctx: BotContext): Promise<boolean> {
+  if (ctx.session.isAuthenticated && ctx.session.tokens) {
+    return true;
+  }
+
+  if (ctx.callbackQuery) {
+    await ctx.answerCallbackQuery(ctx.t.common.startFirst);
+  } else {
+    await ctx.reply(ctx.t.common.startFirst);
+  }
+  return false;
+}
+
+/**
+ * Clear the session when the backend no longer knows the user (deleted after account merge)
+ */
+export async function handleUserNotFound(ctx: BotContext): Promise<void> {
+  ctx.session.isAuthenticated = false;
+  ctx.session.tokens = undefined;
+  ctx.session.user = undefined;
+  await respond(ctx, ctx.t.common.sessionInvalid);
+}
+
+/**
+ * /lectures command - List the user's recordings
+ */
+export async function handleLectures(ctx: BotContext): Promise<void> {
+  await showLectures(ctx, "all", 1);
+}
+
+/**
+ * Handle list pages and filters (lectures:<filter>:<page>)
+ */
+export async function handleLecturesPage(ctx: BotContext): Promise<void> {
+  const [, filter, page] = ctx.callbackQuery?.data?.split(":") ?? [];
+  const pageNumber = parseInt(page ?? "", 10);
+
+  if (!isLectureFilter(filter) || !(pageNumber >= 1)) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  await showLectures(ctx, filter, pageNumber);
+}
+
+async function showLectures(ctx: BotContext, filter: LectureFilter, page: number): Promise<void> {
+  if (!(await ensureAuthenticated(ctx))) return;
+
+  const response = await apiClient.getLectures(sessionAuth(ctx), {
+    page,
+    limit: PAGE_SIZE,
+    summarizationType: filter === "all" ? undefined : filter,
+  });
+
+  if (ctx.callbackQuery) {
+    await ctx.answerCallbackQuery();
+  }
+
+  if (!response.success || !response.data) {
+    if (response.error?.code === "USER_NOT_FOUND") {
+      await handleUserNotFound(ctx);
+      return;
+    }
+    await respond(ctx, ctx.t.lectures.fetchError);
+    return;
+  }
+
+  const { lectures, pagination } = response.data;
+  const totalPages = Math.max(1, pagination.totalPages);
+
+  const keyboard = new InlineKeyboard();
+  for (const filterOption of LECTURE_FILTERS) {
+    const label = filterOption === "all" ? ctx.t.lectures.filterAll : getSummarizationTypeName(ctx.t, filterOption);
+    keyboard.text((filterOption === filter ? "✓ " : "") + label, `lectures:${filterOption}:1`);
+  }
+  keyboard.row();
+
+  if (lectures.length === 0) {
+    await respond(ctx, filter === "all" ? ctx.t.lectures.empty : ctx.t.lectures.emptyFiltered, keyboard);
+    return;
+  }
+
+  // Plain text - titles are user input and may contain Markdown characters
+  let text = ctx.t.lectures.title(pagination.page, totalPages) + "\n";
+  lectures.forEach((lecture, index) => {
+    const number = (pagination.page - 1) * pagination.limit + index + 1;
+    text +=
+      `\n${number}. ${getTypeEmoji(lecture.summarizationType)} ${getLectureTitle(ctx.t, lecture)}\n` +
+      `${formatDate(lecture.createdAt, ctx.t.dateLocale)} · ${ctx.t.lectures.status[lecture.status]}\n`;
+
+    keyboard
+      .text(
+        `${number}. ${truncate(getLectureTitle(ctx.t, lecture), MAX_BUTTON_TITLE_LENGTH)}`,
+        `lecture:${lecture.id}:${filter}:${pagination.page}`
+      )
+      .row();
+  });
+
+  if (totalPages > 1) {
+    if (pagination.page > 1) {
+      keyboard.text("◀️", `lectures:${filter}:${pagination.page - 1}`);
+    }
+    if (pagination.page < totalPages) {
+      keyboard.text("▶️", `lectures:${filter}:${pagination.page + 1}`);
+    }
+  }
+
+  await respond(ctx, text, keyboard);
+}
+
+/**
+ * Handle a lecture picked from the list (lecture:<id>:<filter>:<page>)
+ */
+export async function handleLectureDetail(ctx: BotContext): Promise<void> {
+  const [, lectureId, filter, page] = ctx.callbackQuery?.data?.split(":") ?? [];
+  if (!lectureId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  if (!(await ensureAuthenticated(ctx))) return;
+
+  const response = await apiClient.getLecture(sessionAuth(ctx), lectureId);
+
+  if (!response.success || !response.data) {
+    if (response.error?.code === "USER_NOT_FOUND") {
+      await ctx.answerCallbackQuery();
+      await handleUserNotFound(ctx);
+      return;
+    }
+    await ctx.answerCallbackQuery(ctx.t.lectures.notFound);
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const lecture = response.data.lecture;
+  const text = ctx.t.lectures.details({
+    title: getLectureTitle(ctx.t, lecture),
+    typeName: getSummarizationTypeName(ctx.t, lecture.summarizationType),
+    date: formatDate(lecture.createdAt, ctx.t.dateLocale),
+    duration: lecture.durationSeconds
+      ? formatTimestamp(lecture.durationSeconds)
+      : ctx.t.lectures.unknownDuration,
+    status: ctx.t.lectures.status[lecture.status],
+  });
+
+  const keyboard = new InlineKeyboard();
+  if (lecture.status === "completed") {
+    addLectureSectionButtons(keyboard, ctx.t, lecture.id)
+      .text(ctx.t.export.button, `export:${lecture.id}`)
+      .text(ctx.t.ask.button, `ask:${lecture.id}`)
+      .row();
+  }
+  keyboard.webApp(ctx.t.lectures.openInApp, getLectureWebAppUrl(lecture.id)).row();
+  if (isLectureFilter(filter) && page) {
+    keyboard.text(ctx.t.common.back, `lectures:${filter}:${page}`);
+  }
+
+  await respond(ctx, text, keyboard);
+}
+
+/**
+ * Handle the summary, key points and transcript buttons
+ * (lecture_view:<id>:<section> and lecture_switch:<id>:<section>)
+ */
+export async function handleLectureSection(ctx: BotContext): Promise<void> {
+  const [action, lectureId, section] = ctx.callbackQuery?.data?.split(":") ?? [];
+  if (!lectureId || !isLectureSection(section)) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  if (!(await ensureAuthenticated(ctx))) return;
+
+  const auth = sessionAuth(ctx);
+  const [lectureResponse, contentResponse] = await Promise.all([
+    apiClient.getLecture(auth, lectureId),
+    section === "transcript"
+      ? apiClient.getLectureTranscript(auth, lectureId)
+      : apiClient.getLectureSummary(auth, lectureId),
+  ]);
+
+  if (!lectureResponse.success || !lectureResponse.data) {
+    await ctx.answerCallbackQuery();
+    if (lectureResponse.error?.code === "USER_NOT_FOUND") {
+      await handleUserNotFound(ctx);
+    } else {
+      await ctx.reply(ctx.t.lectures.contentError);
+    }
+    return;
+  }
+
+  const lecture = lectureResponse.data.lecture;
+  if (lecture.status !== "completed") {
+    await ctx.answerCallbackQuery(ctx.t.lectures.notReady);
+    return;
+  }
+
+  if (!contentResponse.success || !contentResponse.data) {
+    await ctx.answerCallbackQuery();
+    await ctx.reply(ctx.t.lectures.contentError);
+    return;
+  }
+
+  const body = getSectionText(section, contentResponse.data);
+  if (!body) {
+    await ctx.answerCallbackQuery(ctx.t.lectures.sectionEmpty);
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  // Headers are counted in the limit too, so parts leave room for them
+  const header = `${getSectionName(ctx.t, section)} · ${getLectureTitle(ctx.t, lecture)}`;
+  const parts = splitText(body, MAX_MESSAGE_LENGTH - header.length - PART_COUNTER_RESERVE - 2);
+  const shown = parts.slice(0, MAX_SECTION_MESSAGES);
+
+  const messages = shown.map((part, index) => {
+    const counter = parts.length > 1 ? ` (${index + 1}/${parts.length})` : "";
+    return `<b>${escapeHtml(header + counter)}</b>\n\n${escapeHtml(part)}`;
+  });
+  if (parts.length > shown.length) {
+    messages.push(escapeHtml(ctx.t.lectures.continueInApp));
+  }
+
+  const keyboard = addLectureSectionButtons(new InlineKeyboard(), ctx.t, lecture.id, section)
+    .webApp(ctx.t.lectures.openInApp, getLectureWebAppUrl(lecture.id));
+
+  for (const [index, text] of messages.entries()) {
+    const isLast = index === messages.length - 1;
+    const options = { parse_mode: "HTML" as const, reply_markup: isLast ? keyboard : undefined };
+
+    // Switching sections replaces the message the button was under
+    if (index === 0 && action === "lecture_switch") {
+      try {
+        await ctx.editMessageText(text, options);
+        continue;
+      } catch {
+        // Message can't be edited - send the section as new messages
+      }
+    }
+    await ctx.reply(text, options);
+  }
+}
+
+function getSectionText(
+  section: LectureSection,
+  content: LectureSummaryResponse | LectureTranscriptResponse
+): string {
+  switch (section) {
+    case "summary":
+      return "summary" in content ? content.summary?.trim() ?? "" : "";
+    case "points":
+      return "keyPoints" in content
+        ? content.keyPoints
+            .map((point) => point.trim())
+            .filter(Boolean)
+            .map((point) => "• " + point)
+            .join("\n")
+        : "";
+    case "transcript":
+      return "transcript" in content ? content.transcript?.trim() ?? "" : "";
+  }
+}
+
+export function getLectureTitle(t: Messages, lecture: LectureListItem): string {
+  return lecture.title || t.notifications.defaultTitle;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.slice(0, maxLength - 1) + "…" : text;
+}
@@ -1,70 +1,69 @@
+import { randomBytes } from "crypto";
 import { InlineKeyboard } from "grammy";
+import type { Api, NextFunction } from "grammy";
 import type { BotContext, PendingMedia } from "../context.js";
-import { uploadService } from "../../api/upload.js";
+import { TRANSCRIPTION_LANGUAGES } from "../../api/upload.js";
+import type { TranscriptionLanguage } from "../../api/upload.js";
 import { checkMinutesForUpload } from "./balance.js";
 import { config } from "../../config.js";
-
-// Track media group IDs to avoid duplicate messages
-const handledMediaGroups = new Map<string, number>();
-
-// Clean up old media group IDs (older than 1 minute)
-function cleanupMediaGroups(): void {
-  const now = Date.now();
-  for (const [groupId, timestamp] of handledMediaGroups) {
-    if (now - timestamp > 60000) {
-      handledMediaGroups.delete(groupId);
-    }
-  }
-}
+import {
+  detectMediaMimeType,
+  formatTimestamp,
+  getTelegramFileInput,
+  isFfmpegAvailable,
+  parseTimeRange,
+  probeDuration,
+} from "../../media/index.js";
+import {
+  uploadQueue,
+  getBillableDuration,
+  getSummarizationTypeName,
+  getTranscriptionLanguageName,
+} from "../uploads/index.js";
+
+// Files a user can have waiting (type/language choice or upload queue) at once
+const MAX_QUEUED_FILES = 10;
+// Unanswered type/language prompts are dropped after a day
+const PENDING_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+// Longer captions are cut when used as the lecture title
+const MAX_TITLE_LENGTH = 200;
+// Documents up to this size are probed for their duration right away, within
+// the time limit. getFile makes the Local Bot API fetch the whole file first,
+// so larger ones are probed by their upload job instead of holding up the bot.
+const QUICK_PROBE_MAX_BYTES = 20 * 1024 * 1024;
+const QUICK_PROBE_TIMEOUT_MS = 10 * 1000;
+
+// Caption hashtags that preselect the content type and transcription language
+const TYPE_DIRECTIVES: Record<string, "lecture" | "custdev"> = {
+  lecture: "lecture",
+  meeting: "lecture",
+  maruza: "lecture",
+  custdev: "custdev",
+};
 
 export async function handleMedia(ctx: BotContext): Promise<void> {
   const message = ctx.message;
   if (!message) return;
 
-  // Check if this is part of a media group (album)
-  if (message.media_group_id) {
-    cleanupMediaGroups();
-
-    // Only show message once per media group
-    if (!handledMediaGroups.has(message.media_group_id)) {
-      handledMediaGroups.set(message.media_group_id, Date.now());
-      await ctx.reply(
-        "📂 *Bir nechta fayl aniqlandi*\n\n" +
-        "Iltimos, fayllarni bittadan yuboring.\n" +
-        "Har bir fayl alohida qayta ishlanishi kerak.",
-        { parse_mode: "Markdown" }
-      );
-    }
-    return;
-  }
+  // Albums and several files in a row are fine - each file gets its own
+  // prompt and joins the user's upload queue
+  const messageId = message.message_id;
+  const chatId = message.chat.id;
 
-  // Check if there's already an upload in progress
-  if (ctx.session.isUploading) {
-    await ctx.reply(
-      "⏳ *Yuklash davom etmoqda*\n\n" +
-      "Iltimos, joriy fayl yuklanishini kuting.\n" +
-      "Fayllarni bittadan yuklang.",
-      { parse_mode: "Markdown" }
-    );
-    return;
-  }
+  const now = Date.now();
+  const pendingUploads = (ctx.session.pendingUploads ?? []).filter(
+    (pending) => now - pending.createdAt < PENDING_UPLOAD_TTL_MS
+  );
+  ctx.session.pendingUploads = pendingUploads;
 
-  // Check if there's a pending media waiting for type selection
-  // If so, replace it with the new file (better UX than blocking)
-  if (ctx.session.pendingMedia) {
-    // Notify user that we're replacing the old file
-    await ctx.reply(
-      "🔄 *Yangi fayl qabul qilindi*\n\n" +
-      "Oldingi fayl o'rniga yangi fayl qayta ishlanadi.",
-      { parse_mode: "Markdown" }
-    );
-    // Clear the old pending media (will be replaced below)
-    ctx.session.pendingMedia = undefined;
+  if (pendingUploads.length + uploadQueue.activeCount(chatId) >= MAX_QUEUED_FILES) {
+    await ctx.reply(ctx.t.media.queueFull(MAX_QUEUED_FILES), {
+      parse_mode: "Markdown",
+      reply_parameters: { message_id: messageId },
+    });
+    return;
   }
 
-  const messageId = message.message_id;
-  const chatId = message.chat.id;
-
   let fileId: string | undefined;
   let fileName: string | undefined;
   let fileSize: number | undefined;
@@ -97,10 +96,23 @@ export async function handleMedia(ctx: BotContext): Promise<void> {
     duration = message.video_note.duration;
     mimeType = "video/mp4";
     fileName = "video_note_" + Date.now() + ".mp4";
+  } else if (message.document) {
+    // Recordings sent "as file" (e.g. MKV/WAV exports) - accept only audio and video
+    fileName = message.document.file_name;
+    mimeType = detectMediaMimeType(fileName, message.document.mime_type);
+    if (!mimeType) {
+      await ctx.reply(ctx.t.media.unsupportedDocument, {
+        parse_mode: "Markdown",
+        reply_parameters: { message_id: messageId },
+      });
+      return;
+    }
+    fileId = message.document.file_id;
+    fileSize = message.document.file_size;
   }
 
   if (!fileId) {
-    await ctx.reply("Bu media faylni qayta ishlab bo'lmadi.");
+    await ctx.reply(ctx.t.media.unsupported);
     return;
   }
 
@@ -109,13 +121,10 @@ export async function handleMedia(ctx: BotContext): Promise<void> {
     const fileSizeMB = (fileSize / 1024 / 1024).toFixed(1);
     const maxSizeMB = Math.round(config.maxFileSize / 1024 / 1024);
     const keyboard = new InlineKeyboard()
-      .webApp("🌐 Web ilovani ochish", config.webAppUrl);
+      .webApp(ctx.t.common.openWebApp, config.webAppUrl);
 
     await ctx.reply(
-      `📁 *Fayl juda katta*\n\n` +
-        `📊 Fayl hajmi: ${fileSizeMB} MB\n` +
-        `⚠️ Telegram orqali maksimum ${maxSizeMB} MB gacha fayl yuklash mumkin.\n\n` +
-        `Katta fayllarni yuklash uchun web ilovadan foydalaning:`,
+      ctx.t.media.fileTooLarge(fileSizeMB, maxSizeMB),
       {
         parse_mode: "Markdown",
         reply_markup: keyboard,
@@ -125,7 +134,18 @@ export async function handleMedia(ctx: BotContext): Promise<void> {
     return;
   }
 
+  // Documents come without a duration - small ones are probed now so trimming
+  // and the minutes check work; the upload job probes the rest
+  if (!duration && fileSize && fileSize <= QUICK_PROBE_MAX_BYTES) {
+    duration = await detectDuration(ctx, fileId);
+  }
+
+  // The caption becomes the title, and its directives can skip the keyboards
+  const caption = parseCaption(message.caption);
+
   const pendingMedia: PendingMedia = {
+    id: randomBytes(4).toString("hex"),
+    createdAt: now,
     messageId,
     chatId,
     fileId,
@@ -133,28 +153,168 @@ export async function handleMedia(ctx: BotContext): Promise<void> {
     fileSize,
     mimeType,
     duration,
+    ...caption,
   };
-  ctx.session.pendingMedia = pendingMedia;
+  pendingUploads.push(pendingMedia);
+
+  if (pendingMedia.summarizationType) {
+    await continueWithType(ctx, pendingMedia, pendingMedia.summarizationType);
+    return;
+  }
 
   // Show file info and type selection with cancel option
   const fileSizeMB = fileSize ? (fileSize / 1024 / 1024).toFixed(1) : "?";
-  const durationMin = duration ? Math.ceil(duration / 60) : "?";
+  const durationMin = duration ? String(Math.ceil(duration / 60)) : "?";
+
+  await ctx.reply(
+    ctx.t.media.fileReceived(fileSizeMB, durationMin),
+    {
+      parse_mode: "Markdown",
+      reply_markup: await getTypeKeyboard(ctx, pendingMedia),
+      reply_parameters: { message_id: messageId },
+    }
+  );
+}
 
+/**
+ * Read the title and directives from a caption
+ * "#custdev #ru Weekly sync" gives the custdev type, Russian and the title
+ * "Weekly sync". Unknown hashtags are kept as part of the title.
+ */
+function parseCaption(
+  caption: string | undefined
+): Pick<PendingMedia, "title" | "summarizationType" | "language"> {
+  const result: Pick<PendingMedia, "title" | "summarizationType" | "language"> = {};
+  const words: string[] = [];
+
+  for (const word of (caption ?? "").split(/\s+/)) {
+    const tag = word.startsWith("#") ? word.slice(1).toLowerCase() : undefined;
+    const type = tag ? TYPE_DIRECTIVES[tag] : undefined;
+    if (type) {
+      result.summarizationType = type;
+    } else if (isTranscriptionLanguage(tag)) {
+      result.language = tag;
+    } else if (word) {
+      words.push(word);
+    }
+  }
+
+  const title = words.join(" ").slice(0, MAX_TITLE_LENGTH).trim();
+  if (title) {
+    result.title = title;
+  }
+  return result;
+}
+
+/**
+ * Content type keyboard, with the trim option when the recording can be cut
+ */
+async function getTypeKeyboard(ctx: BotContext, pendingMedia: PendingMedia): Promise<InlineKeyboard> {
   const keyboard = new InlineKeyboard()
-    .text("📚 Ma'ruza", "type:meeting")
-    .text("🎯 CustDev", "type:custdev")
-    .row()
-    .text("❌ Bekor qilish", "type:cancel");
+    .text(ctx.t.media.typeLecture, `type:${pendingMedia.id}:meeting`)
+    .text(ctx.t.media.typeCustdev, `type:${pendingMedia.id}:custdev`)
+    .row();
+
+  // Cutting needs ffmpeg, and the duration to check the range against
+  if (pendingMedia.duration && (await isFfmpegAvailable())) {
+    keyboard.text(ctx.t.media.trim, `trim:${pendingMedia.id}`).row();
+  }
+
+  return keyboard.text(ctx.t.media.cancel, `type:${pendingMedia.id}:cancel`);
+}
+
+/**
+ * Detect the duration of a Telegram file with ffprobe, within QUICK_PROBE_TIMEOUT_MS
+ * Returns undefined if the file can't be probed (the upload still goes ahead).
+ */
+async function detectDuration(ctx: BotContext, fileId: string): Promise<number | undefined> {
+  const deadline = Date.now() + QUICK_PROBE_TIMEOUT_MS;
+  try {
+    // grammY types its signal parameter with the abort-controller polyfill
+    const signal = AbortSignal.timeout(QUICK_PROBE_TIMEOUT_MS) as Parameters<Api["getFile"]>[1];
+    const file = await ctx.api.getFile(fileId, signal);
+    if (!file.file_path) return undefined;
 
+    const timeLeft = deadline - Date.now();
+    if (timeLeft <= 0) return undefined;
+
+    const duration = await probeDuration(getTelegramFileInput(file.file_path, ctx.api.token), timeLeft);
+    console.log("Detected duration: " + (duration ?? "unknown") + "s");
+    return duration;
+  } catch (error) {
+    console.error("Failed to detect duration:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Take a pending file out of the session (on cancel or when it's queued)
+ */
+function removePendingUpload(ctx: BotContext, id: string): void {
+  ctx.session.pendingUploads = ctx.session.pendingUploads?.filter((pending) => pending.id !== id);
+  if (ctx.session.trimPendingId === id) {
+    ctx.session.trimPendingId = undefined;
+  }
+}
+
+/**
+ * Handle the trim button - ask for the time range to keep
+ */
+export async function handleTrimRequest(ctx: BotContext): Promise<void> {
+  const id = ctx.callbackQuery?.data?.slice("trim:".length);
+  const pendingMedia = ctx.session.pendingUploads?.find((pending) => pending.id === id);
+
+  await ctx.answerCallbackQuery();
+
+  if (!pendingMedia?.duration) {
+    await ctx.editMessageText(ctx.t.media.notFound);
+    return;
+  }
+
+  ctx.session.trimPendingId = pendingMedia.id;
+
+  await ctx.editMessageText(ctx.t.media.trimPrompt(formatTimestamp(pendingMedia.duration)), {
+    parse_mode: "Markdown",
+    reply_markup: new InlineKeyboard().text(ctx.t.media.cancel, `type:${pendingMedia.id}:cancel`),
+  });
+}
+
+/**
+ * Handle the time range typed after pressing the trim button
+ * Other text messages are passed on to the next handler.
+ */
+export async function handleTrimRange(ctx: BotContext, next: NextFunction): Promise<void> {
+  const text = ctx.message?.text;
+  const id = ctx.session.trimPendingId;
+  if (!text || !id) {
+    await next();
+    return;
+  }
+
+  const pendingMedia = ctx.session.pendingUploads?.find((pending) => pending.id === id);
+  if (!pendingMedia?.duration) {
+    ctx.session.trimPendingId = undefined;
+    await next();
+    return;
+  }
+
+  const length = formatTimestamp(pendingMedia.duration);
+  const range = parseTimeRange(text);
+  if (!range || range.end > pendingMedia.duration) {
+    await ctx.reply(ctx.t.media.trimInvalid(length), { parse_mode: "Markdown" });
+    return;
+  }
+
+  pendingMedia.trim = range;
+  ctx.session.trimPendingId = undefined;
+
+  const durationMin = String(Math.ceil((range.end - range.start) / 60));
   await ctx.reply(
-    `📁 *Fayl qabul qilindi*\n\n` +
-      `📊 Hajmi: ${fileSizeMB} MB\n` +
-      `⏱ Davomiyligi: ~${durationMin} daqiqa\n\n` +
-      `Kontent turini tanlang:`,
+    ctx.t.media.trimmed(formatTimestamp(range.start), formatTimestamp(range.end), durationMin),
     {
       parse_mode: "Markdown",
-      reply_markup: keyboard,
-      reply_parameters: { message_id: messageId },
+      reply_markup: await getTypeKeyboard(ctx, pendingMedia),
+      reply_parameters: { message_id: pendingMedia.messageId },
     }
   );
 }
@@ -166,157 +326,172 @@ export async function handleTypeSelection(ctx: BotContext): Promise<void> {
     return;
   }
 
-  const [, type] = data.split(":");
+  const [, id, type] = data.split(":");
+  const pendingMedia = ctx.session.pendingUploads?.find((pending) => pending.id === id);
 
   // Handle cancel
   if (type === "cancel") {
-    await ctx.answerCallbackQuery("Bekor qilindi");
-    ctx.session.pendingMedia = undefined;
-    await ctx.editMessageText("❌ Bekor qilindi. Yangi fayl yuborishingiz mumkin.");
+    await ctx.answerCallbackQuery(ctx.t.media.cancelled);
+    if (id) removePendingUpload(ctx, id);
+    await ctx.editMessageText(ctx.t.media.cancelledMessage);
     return;
   }
 
   const summarizationType = type === "meeting" ? "lecture" : "custdev";
-  const typeName = type === "meeting" ? "📚 Ma'ruza" : "🎯 CustDev";
 
   await ctx.answerCallbackQuery();
 
-  const pendingMedia = ctx.session.pendingMedia;
   if (!pendingMedia) {
-    await ctx.editMessageText("⚠️ Media topilmadi. Iltimos, avval video yoki audio fayl yuboring.");
+    await ctx.editMessageText(ctx.t.media.notFound);
     return;
   }
 
+  await continueWithType(ctx, pendingMedia, summarizationType);
+}
+
+/**
+ * Step 2 of the flow, once the content type is known (from the keyboard or
+ * a caption directive): check minutes, then ask for the language unless
+ * the caption already chose one
+ * Answers by editing the keyboard message when called from a button.
+ */
+async function continueWithType(
+  ctx: BotContext,
+  pendingMedia: PendingMedia,
+  summarizationType: "lecture" | "custdev"
+): Promise<void> {
+  const answer = (text: string, keyboard?: InlineKeyboard) =>
+    ctx.callbackQuery
+      ? ctx.editMessageText(text, { reply_markup: keyboard })
+      : ctx.reply(text, { reply_markup: keyboard, reply_parameters: { message_id: pendingMedia.messageId } });
+
   if (!ctx.session.isAuthenticated || !ctx.session.tokens) {
-    await ctx.editMessageText("⚠️ Iltimos, avval /start buyrug'ini yuboring");
+    removePendingUpload(ctx, pendingMedia.id);
+    await answer(ctx.t.media.startFirst);
     return;
   }
 
-  // Check if user has enough minutes for this media
-  if (pendingMedia.duration) {
-    const hasMinutes = await checkMinutesForUpload(ctx, pendingMedia.duration);
+  // Check if user has enough minutes for this media (only the trimmed part
+  // if one was chosen) and the files already queued
+  const duration = getBillableDuration(pendingMedia);
+  if (duration) {
+    const queuedDuration = uploadQueue.activeDuration(pendingMedia.chatId);
+    const hasMinutes = await checkMinutesForUpload(ctx, duration + queuedDuration);
     if (!hasMinutes) {
       // User doesn't have enough minutes - message already sent by checkMinutesForUpload
-      ctx.session.pendingMedia = undefined;
+      removePendingUpload(ctx, pendingMedia.id);
       return;
     }
   }
 
-  // Mark upload as in progress
-  ctx.session.isUploading = true;
-  ctx.session.pendingMedia = undefined;
+  pendingMedia.summarizationType = summarizationType;
 
-  // Step 1: Getting file from Telegram
-  await ctx.editMessageText(`${typeName}\n\n⏳ Yuklab olinmoqda... (1/3)`);
+  if (pendingMedia.language) {
+    removePendingUpload(ctx, pendingMedia.id);
+    await answer(
+      ctx.t.media.queued(
+        getSummarizationTypeName(ctx.t, summarizationType),
+        getTranscriptionLanguageName(ctx.t, pendingMedia.language)
+      )
+    );
+    await uploadQueue.enqueue(pendingMedia, summarizationType, pendingMedia.language, ctx.locale);
+    return;
+  }
 
-  try {
-    const file = await ctx.api.getFile(pendingMedia.fileId);
-    if (!file.file_path) {
-      throw new Error("Fayl yo'lini olib bo'lmadi");
-    }
+  await answer(
+    `${getSummarizationTypeName(ctx.t, summarizationType)}\n\n${ctx.t.media.chooseLanguage}`,
+    getTranscriptionLanguageKeyboard(ctx, pendingMedia.id)
+  );
+}
 
-    // Step 2: Uploading to server
-    await ctx.editMessageText(`${typeName}\n\n📤 Serverga yuklanmoqda... (2/3)`);
-
-    let result;
-    const uploadOptions = {
-      filename: pendingMedia.fileName || "upload_" + Date.now(),
-      mimeType: pendingMedia.mimeType || "application/octet-stream",
-      language: "uz",
-      summarizationType: summarizationType as "lecture" | "custdev",
-    };
-
-    if (config.useLocalBotApi) {
-      // Local Bot API returns a local file path
-      // The file is stored locally by telegram-bot-api server
-      // Progress callback to update user on upload progress
-      let lastProgressUpdate = 0;
-      const onProgress = async (percent: number) => {
-        // Only update every 20% to avoid rate limiting
-        if (percent - lastProgressUpdate >= 20 || percent === 100) {
-          lastProgressUpdate = percent;
-          try {
-            await ctx.editMessageText(
-              `${typeName}\n\n📤 Serverga yuklanmoqda... (2/3)\n\n` +
-              `${"▓".repeat(Math.floor(percent / 10))}${"░".repeat(10 - Math.floor(percent / 10))} ${percent}%`
-            );
-          } catch {
-            // Ignore edit errors (message might not have changed)
-          }
-        }
-      };
-
-      result = await uploadService.uploadFromLocalPath(
-        ctx.session.tokens.accessToken,
-        file.file_path,
-        uploadOptions,
-        undefined, // botToken
-        undefined, // localApiUrl
-        onProgress
-      );
-    } else {
-      // Cloud API - construct URL to download file
-      const fileUrl = "https://api.telegram.org/file/bot" + ctx.api.token + "/" + file.file_path;
-      result = await uploadService.uploadFromUrl(
-        ctx.session.tokens.accessToken,
-        fileUrl,
-        uploadOptions
-      );
-    }
+/**
+ * Handle transcription language selection and queue the upload
+ */
+export async function handleTranscriptionLanguageSelection(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
 
-    if (result.success && result.lectureId) {
-      // Step 3: Success
-      await ctx.editMessageText(
-        `${typeName}\n\n` +
-          `✅ *Muvaffaqiyatli yuklandi!* (3/3)\n\n` +
-          `Transkriptsiya va xulosa tayyor bo'lganda xabar beramiz.\n` +
-          `Bu odatda 5-10 daqiqa davom etadi.`,
-        { parse_mode: "Markdown" }
-      );
-      console.log("Upload successful. Lecture ID: " + result.lectureId);
-    } else if (result.isRateLimited) {
-      await ctx.editMessageText(
-        "⏳ *Biroz kuting*\n\n" +
-          "Siz soatiga maksimum 10 ta fayl yuklashingiz mumkin.\n" +
-          "Iltimos, biroz kuting va qaytadan urinib ko'ring.",
-        { parse_mode: "Markdown" }
-      );
-      console.log("Upload rate limited for user");
-    } else {
-      throw new Error(result.error || "Yuklash muvaffaqiyatsiz");
-    }
-  } catch (error) {
-    console.error("Upload error:", error);
-
-    // Check if it's a "file is too big" error from Telegram
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const isFileTooLarge = errorMessage.includes("file is too big") || errorMessage.includes("file_too_big");
-
-    if (isFileTooLarge) {
-      const keyboard = new InlineKeyboard()
-        .webApp("🌐 Web ilovani ochish", config.webAppUrl);
-
-      await ctx.editMessageText(
-        `${typeName}\n\n` +
-          `📁 *Fayl juda katta*\n\n` +
-          `⚠️ Telegram orqali maksimum 20 MB gacha fayl yuklash mumkin.\n\n` +
-          `Katta fayllarni yuklash uchun web ilovadan foydalaning:`,
-        {
-          parse_mode: "Markdown",
-          reply_markup: keyboard,
-        }
-      );
-    } else {
-      await ctx.editMessageText(
-        `${typeName}\n\n` +
-          `❌ *Xatolik yuz berdi*\n\n` +
-          `Iltimos, qaytadan urinib ko'ring.\n` +
-          `Muammo davom etsa, /start buyrug'ini yuboring.`,
-        { parse_mode: "Markdown" }
-      );
-    }
-  } finally {
-    // Always clear the uploading flag when done
-    ctx.session.isUploading = false;
+  if (!data?.startsWith("lang:")) {
+    return;
   }
+
+  const [, id, language] = data.split(":");
+  const pendingMedia = ctx.session.pendingUploads?.find((pending) => pending.id === id);
+
+  // Handle cancel
+  if (language === "cancel") {
+    await ctx.answerCallbackQuery(ctx.t.media.cancelled);
+    if (id) removePendingUpload(ctx, id);
+    await ctx.editMessageText(ctx.t.media.cancelledMessage);
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  if (!isTranscriptionLanguage(language)) {
+    return;
+  }
+
+  const summarizationType = pendingMedia?.summarizationType;
+  if (!pendingMedia || !summarizationType) {
+    await ctx.editMessageText(ctx.t.media.notFound);
+    return;
+  }
+
+  if (!ctx.session.isAuthenticated || !ctx.session.tokens) {
+    await ctx.editMessageText(ctx.t.media.startFirst);
+    return;
+  }
+
+  // Remember the choice as the default for the next upload
+  ctx.session.transcriptionLanguage = language;
+  removePendingUpload(ctx, pendingMedia.id);
+
+  await ctx.editMessageText(
+    ctx.t.media.queued(
+      getSummarizationTypeName(ctx.t, summarizationType),
+      getTranscriptionLanguageName(ctx.t, language)
+    )
+  );
+
+  await uploadQueue.enqueue(pendingMedia, summarizationType, language, ctx.locale);
+}
+
+/**
+ * Handle the cancel buttons on the upload status message
+ */
+export async function handleUploadCancel(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const chatId = ctx.chat?.id;
+
+  if (!data?.startsWith("upload_cancel:") || chatId === undefined) {
+    return;
+  }
+
+  const id = data.slice("upload_cancel:".length);
+  const cancelled = await uploadQueue.cancel(chatId, id);
+
+  await ctx.answerCallbackQuery(cancelled ? ctx.t.media.cancelled : ctx.t.uploads.cancelTooLate);
+}
+
+function isTranscriptionLanguage(value: string | undefined): value is TranscriptionLanguage {
+  return !!value && (TRANSCRIPTION_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Language keyboard with the user's default marked
+ * Falls back to the UI language when the user hasn't picked one yet.
+ */
+function getTranscriptionLanguageKeyboard(ctx: BotContext, id: string): InlineKeyboard {
+  const defaultLanguage = ctx.session.transcriptionLanguage ?? ctx.locale;
+  const button = (language: TranscriptionLanguage) =>
+    (language === defaultLanguage ? "✓ " : "") + getTranscriptionLanguageName(ctx.t, language);
+
+  return new InlineKeyboard()
+    .text(button("uz"), `lang:${id}:uz`)
+    .text(button("ru"), `lang:${id}:ru`)
+    .text(button("en"), `lang:${id}:en`)
+    .row()
+    .text(button("auto"), `lang:${id}:auto`)
+    .row()
+    .text(ctx.t.media.cancel, `lang:${id}:cancel`);
 }
@@ -2,9 +2,25 @@ import { InlineKeyboard, InputFile } from "grammy";
 import path from "path";
 import type { BotContext } from "../context.js";
 import { apiClient } from "../../api/client.js";
+import { sessionAuth } from "../middlewares/auth.js";
+import type { Messages } from "../../i18n/index.js";
 
 const PRICING_IMAGE_PATH = path.join(process.cwd(), "public", "images", "pricing_plans.png");
 
+// Plan prices and minutes (features are localized in the locale files)
+const PLAN_DETAILS: Record<string, { name: string; price: string; minutes: number }> = {
+  starter: { name: "Starter", price: "99,000 UZS", minutes: 300 },
+  pro: { name: "Pro", price: "189,000 UZS", minutes: 900 },
+  business: { name: "Business", price: "349,000 UZS", minutes: 2400 },
+};
+
+// Extra minute packages, in display order
+const PACKAGE_DETAILS: Record<string, { hours: number; price: string; minutes: number }> = {
+  "1hr": { hours: 1, price: "36,000 UZS", minutes: 60 },
+  "5hr": { hours: 5, price: "229,000 UZS", minutes: 300 },
+  "10hr": { hours: 10, price: "289,000 UZS", minutes: 600 },
+};
+
 // Format price with thousand separators
 function formatPrice(price: number): string {
   return price.toLocaleString("uz-UZ");
@@ -13,7 +29,7 @@ function formatPrice(price: number): string {
 /**
  * Build pricing message and keyboard from API data
  */
-async function buildPricingContent(): Promise<{ message: string; keyboard: InlineKeyboard } | null> {
+async function buildPricingContent(t: Messages): Promise<{ message: string; keyboard: InlineKeyboard } | null> {
   const plansResponse = await apiClient.getPlans();
 
   if (!plansResponse.success || !plansResponse.data) {
@@ -23,8 +39,7 @@ async function buildPricingContent(): Promise<{ message: string; keyboard: Inlin
   const plans = plansResponse.data.plans;
 
   // Build message
-  let message = "📊 *UzNotes Tariflar*\n\n";
-  message += "Har bir foydalanuvchi oyiga *30 daqiqa* bepul sinov imkoniyatiga ega\\!\n\n";
+  const message = t.pricing.title;
 
   // Build keyboard
   const keyboard = new InlineKeyboard();
@@ -37,7 +52,7 @@ async function buildPricingContent(): Promise<{ message: string; keyboard: Inlin
     keyboard.text(`${emoji} ${plan.displayName} - ${price} UZS`, `plan_${plan.name}`).row();
   }
 
-  keyboard.text("➕ Qo'shimcha daqiqalar", "packages_menu").row();
+  keyboard.text(t.pricing.extraMinutes, "packages_menu").row();
 
   return { message, keyboard };
 }
@@ -46,10 +61,10 @@ async function buildPricingContent(): Promise<{ message: string; keyboard: Inlin
  * /pricing or /plans command - Show subscription plans
  */
 export async function handlePricing(ctx: BotContext): Promise<void> {
-  const content = await buildPricingContent();
+  const content = await buildPricingContent(ctx.t);
 
   if (!content) {
-    await ctx.reply("Tariflarni olishda xatolik yuz berdi. Qayta urinib ko'ring.");
+    await ctx.reply(ctx.t.pricing.fetchError);
     return;
   }
 
@@ -70,64 +85,18 @@ export async function handlePlanSelection(ctx: BotContext): Promise<void> {
 
   const planName = data.replace("plan_", "");
 
-  const planDetails: Record<string, { name: string; price: string; minutes: number; features: string[] }> = {
-    starter: {
-      name: "Starter",
-      price: "99,000 UZS",
-      minutes: 300,
-      features: [
-        "✅ 300 daqiqa (5 soat) video",
-        "✅ Cheksiz transkriptsiya",
-        "✅ AI xulosalar",
-        "✅ Telegram + Web",
-      ],
-    },
-    pro: {
-      name: "Pro",
-      price: "189,000 UZS",
-      minutes: 900,
-      features: [
-        "✅ 900 daqiqa (15 soat) video",
-        "✅ Cheksiz transkriptsiya",
-        "✅ AI xulosalar",
-        "✅ CustDev tahlil",
-        "✅ Telegram + Web",
-        "✅ Papkalar va teglar",
-      ],
-    },
-    business: {
-      name: "Business",
-      price: "349,000 UZS",
-      minutes: 2400,
-      features: [
-        "✅ 2400 daqiqa (40 soat) video",
-        "✅ Cheksiz transkriptsiya",
-        "✅ AI xulosalar",
-        "✅ CustDev tahlil",
-        "✅ Mind map",
-        "✅ Telegram + Web",
-        "✅ Papkalar va teglar",
-        "✅ Ustuvor qo'llab-quvvatlash",
-      ],
-    },
-  };
-
-  const plan = planDetails[planName];
-  if (!plan) {
-    await ctx.answerCallbackQuery("Tarif topilmadi");
+  const plan = PLAN_DETAILS[planName];
+  const features = ctx.t.pricing.planFeatures[planName];
+  if (!plan || !features) {
+    await ctx.answerCallbackQuery(ctx.t.pricing.planNotFound);
     return;
   }
 
-  const message =
-    `📦 *${plan.name} tarifi*\n\n` +
-    `💰 Narxi: *${plan.price}/oy*\n` +
-    `⏱ Daqiqalar: *${plan.minutes} daqiqa*\n\n` +
-    `*Imkoniyatlar:*\n${plan.features.join("\n")}\n\n` +
-    `Sotib olishni tasdiqlaysizmi?`;
+  const message = ctx.t.pricing.planDetails(plan.name, plan.price, plan.minutes, features);
 
   const keyboard = new InlineKeyboard()
-    .text("✅ Sotib olish", `buy_plan_${planName}`)
-    .text("◀️ Orqaga", "back_to_plans");
+    .text(ctx.t.pricing.buy, `buy_plan_${planName}`)
+    .text(ctx.t.common.back, "back_to_plans");
 
   await ctx.editMessageCaption({
     caption: message,
@@ -142,20 +111,13 @@ export async function handlePlanSelection(ctx: BotContext): Promise<void> {
  * Handle packages menu callback
  */
 export async function handlePackagesMenu(ctx: BotContext): Promise<void> {
-  const caption =
-    `➕ *Qo'shimcha daqiqalar*\n\n` +
-    `Agar daqiqalaringiz tugab qolsa yoki yetarli bo'lmasa, ` +
-    `qo'shimcha paketlar sotib olishingiz mumkin.\n\n` +
-    `Bu daqiqalar keyingi oyga o'tmaydi va hozirgi hisobingizga qo'shiladi.`;
+  const caption = ctx.t.pricing.packagesCaption;
 
-  const keyboard = new InlineKeyboard()
-    .text("⏱ 1 soat - 36,000 UZS", "package_1hr")
-    .row()
-    .text("⏱ 5 soat - 229,000 UZS", "package_5hr")
-    .row()
-    .text("⏱ 10 soat - 289,000 UZS", "package_10hr")
-    .row()
-    .text("◀️ Orqaga", "back_to_plans");
+  const keyboard = new InlineKeyboard();
+  for (const [packageName, pkg] of Object.entries(PACKAGE_DETAILS)) {
+    keyboard.text(`⏱ ${ctx.t.common.hours(pkg.hours)} - ${pkg.price}`, `package_${packageName}`).row();
+  }
+  keyboard.text(ctx.t.common.back, "back_to_plans");
 
   // Check if current message is a photo (has caption) or text message
   const message = ctx.callbackQuery?.message;
@@ -189,28 +151,17 @@ export async function handlePackageSelection(ctx: BotContext): Promise<void> {
 
   const packageName = data.replace("package_", "");
 
-  const packageDetails: Record<string, { name: string; price: string; minutes: number }> = {
-    "1hr": { name: "1 soat", price: "36,000 UZS", minutes: 60 },
-    "5hr": { name: "5 soat", price: "229,000 UZS", minutes: 300 },
-    "10hr": { name: "10 soat", price: "289,000 UZS", minutes: 600 },
-  };
-
-  const pkg = packageDetails[packageName];
+  const pkg = PACKAGE_DETAILS[packageName];
   if (!pkg) {
-    await ctx.answerCallbackQuery("Paket topilmadi");
+    await ctx.answerCallbackQuery(ctx.t.pricing.packageNotFound);
     return;
   }
 
-  const message =
-    `📦 *${pkg.name} paketi*\n\n` +
-    `💰 Narxi: *${pkg.price}*\n` +
-    `⏱ Daqiqalar: *${pkg.minutes} daqiqa*\n\n` +
-    `Bu daqiqalar hozirgi hisobingizga qo'shiladi.\n\n` +
-    `Sotib olishni tasdiqlaysizmi?`;
+  const message = ctx.t.pricing.packageDetails(ctx.t.common.hours(pkg.hours), pkg.price, pkg.minutes);
 
   const keyboard = new InlineKeyboard()
-    .text("✅ Sotib olish", `buy_package_${packageName}`)
-    .text("◀️ Orqaga", "packages_menu");
+    .text(ctx.t.pricing.buy, `buy_package_${packageName}`)
+    .text(ctx.t.common.back, "packages_menu");
 
   await ctx.editMessageCaption({
     caption: message,
@@ -225,10 +176,10 @@ export async function handlePackageSelection(ctx: BotContext): Promise<void> {
  * Handle back to plans callback
  */
 export async function handleBackToPlans(ctx: BotContext): Promise<void> {
-  const content = await buildPricingContent();
+  const content = await buildPricingContent(ctx.t);
 
   if (!content) {
-    await ctx.answerCallbackQuery("Xatolik yuz berdi");
+    await ctx.answerCallbackQuery(ctx.t.common.error);
     return;
   }
 
@@ -266,13 +217,13 @@ export async function handleBuyPlan(ctx: BotContext): Promise<void> {
 
   // Check if user is authenticated
   if (!ctx.session.isAuthenticated || !ctx.session.tokens) {
-    await ctx.answerCallbackQuery("Iltimos, avval /start buyrug'ini yuboring");
+    await ctx.answerCallbackQuery(ctx.t.common.startFirst);
     return;
   }
 
   try {
     const response = await apiClient.activatePlanByName(
-      ctx.session.tokens.accessToken,
+      sessionAuth(ctx),
       planName
     );
 
@@ -281,7 +232,7 @@ export async function handleBuyPlan(ctx: BotContext): Promise<void> {
       ctx.session.isAuthenticated = false;
       ctx.session.tokens = undefined;
       ctx.session.user = undefined;
-      await ctx.answerCallbackQuery("Sizning sessiyangiz yaroqsiz. Iltimos, /start buyrug'ini yuboring.");
+      await ctx.answerCallbackQuery(ctx.t.common.sessionInvalid);
       return;
     }
 
@@ -290,17 +241,15 @@ export async function handleBuyPlan(ctx: BotContext): Promise<void> {
       if (response.data.requiresPayment && response.data.paymentUrl) {
         // Paid plan - show payment link
         const payment = response.data.payment;
-        const message =
-          `💳 *To'lov talab qilinadi*\n\n` +
-          `📦 Tarif: *${payment?.planDisplayName || planName}*\n` +
-          `💰 Narxi: *${formatPrice(payment?.amountUzs || 0)} UZS*\n\n` +
-          `Quyidagi tugmani bosib to'lovni amalga oshiring.\n` +
-          `To'lov tasdiqlangandan so'ng tarif avtomatik faollashadi.`;
+        const message = ctx.t.pricing.planPaymentRequired(
+          payment?.planDisplayName || planName,
+          formatPrice(payment?.amountUzs || 0)
+        );
 
         const keyboard = new InlineKeyboard()
-          .url("💳 To'lovga o'tish", response.data.paymentUrl)
+          .url(ctx.t.pricing.goToPayment, response.data.paymentUrl)
           .row()
-          .text("◀️ Orqaga", "back_to_plans");
+          .text(ctx.t.common.back, "back_to_plans");
 
         await ctx.editMessageCaption({
           caption: message,
@@ -309,12 +258,11 @@ export async function handleBuyPlan(ctx: BotContext): Promise<void> {
         });
       } else {
         // Free plan - activated immediately
-        const message =
-          `✅ *Tarif muvaffaqiyatli faollashtirildi!*\n\n` +
-          `Siz endi *${planName.charAt(0).toUpperCase() + planName.slice(1)}* tarifidan foydalanishingiz mumkin.\n\n` +
-          `/balance - Daqiqalar balansini ko'rish`;
+        const message = ctx.t.pricing.planActivated(
+          planName.charAt(0).toUpperCase() + planName.slice(1)
+        );
 
-        const keyboard = new InlineKeyboard().text("📊 Balansni ko'rish", "show_balance");
+        const keyboard = new InlineKeyboard().text(ctx.t.pricing.viewBalance, "show_balance");
 
         await ctx.editMessageCaption({
           caption: message,
@@ -323,17 +271,17 @@ export async function handleBuyPlan(ctx: BotContext): Promise<void> {
         });
       }
     } else {
-      const errorMsg = response.error?.message || "Xatolik yuz berdi";
+      const errorMsg = response.error?.message || ctx.t.common.error;
       await ctx.editMessageCaption({
-        caption: `❌ ${errorMsg}. Iltimos, qayta urinib ko'ring.`,
-        reply_markup: new InlineKeyboard().text("◀️ Orqaga", "back_to_plans"),
+        caption: ctx.t.common.errorWithMessage(errorMsg),
+        reply_markup: new InlineKeyboard().text(ctx.t.common.back, "back_to_plans"),
       });
     }
   } catch (error) {
     console.error("Error activating plan:", error);
     await ctx.editMessageCaption({
-      caption: "❌ Xatolik yuz berdi. Iltimos, qayta urinib ko'ring.",
-      reply_markup: new InlineKeyboard().text("◀️ Orqaga", "back_to_plans"),
+      caption: ctx.t.common.errorTryAgain,
+      reply_markup: new InlineKeyboard().text(ctx.t.common.back, "back_to_plans"),
     });
   }
 
@@ -351,13 +299,13 @@ export async function handleBuyPackage(ctx: BotContext): Promise<void> {
 
   // Check if user is authenticated
   if (!ctx.session.isAuthenticated || !ctx.session.tokens) {
-    await ctx.answerCallbackQuery("Iltimos, avval /start buyrug'ini yuboring");
+    await ctx.answerCallbackQuery(ctx.t.common.startFirst);
     return;
   }
 
   try {
     const response = await apiClient.purchasePackageByName(
-      ctx.session.tokens.accessToken,
+      sessionAuth(ctx),
       packageName
     );
 
@@ -366,7 +314,7 @@ export async function handleBuyPackage(ctx: BotContext): Promise<void> {
       ctx.session.isAuthenticated = false;
       ctx.session.tokens = undefined;
       ctx.session.user = undefined;
-      await ctx.answerCallbackQuery("Sizning sessiyangiz yaroqsiz. Iltimos, /start buyrug'ini yuboring.");
+      await ctx.answerCallbackQuery(ctx.t.common.sessionInvalid);
       return;
     }
 
@@ -374,17 +322,15 @@ export async function handleBuyPackage(ctx: BotContext): Promise<void> {
       // Check if payment is required (it always is for packages)
       if (response.data.requiresPayment && response.data.paymentUrl) {
         const payment = response.data.payment;
-        const message =
-          `💳 *To'lov talab qilinadi*\n\n` +
-          `📦 Paket: *${payment?.packageDisplayName || packageName}*\n` +
-          `💰 Narxi: *${formatPrice(payment?.amountUzs || 0)} UZS*\n\n` +
-          `Quyidagi tugmani bosib to'lovni amalga oshiring.\n` +
-          `To'lov tasdiqlangandan so'ng daqiqalar hisobingizga qo'shiladi.`;
+        const message = ctx.t.pricing.packagePaymentRequired(
+          payment?.packageDisplayName || packageName,
+          formatPrice(payment?.amountUzs || 0)
+        );
 
         const keyboard = new InlineKeyboard()
-          .url("💳 To'lovga o'tish", response.data.paymentUrl)
+          .url(ctx.t.pricing.goToPayment, response.data.paymentUrl)
           .row()
-          .text("◀️ Orqaga", "packages_menu");
+          .text(ctx.t.common.back, "packages_menu");
 
         await ctx.editMessageCaption({
           caption: message,
@@ -393,12 +339,9 @@ export async function handleBuyPackage(ctx: BotContext): Promise<void> {
         });
       } else {
         // Fallback (shouldn't happen for packages)
-        const message =
-          `✅ *Paket muvaffaqiyatli sotib olindi!*\n\n` +
-          `Daqiqalar hisobingizga qo'shildi.\n\n` +
-          `/balance - Yangi balansni ko'rish`;
+        const message = ctx.t.pricing.packagePurchased;
 
-        const keyboard = new InlineKeyboard().text("📊 Balansni ko'rish", "show_balance");
+        const keyboard = new InlineKeyboard().text(ctx.t.pricing.viewBalance, "show_balance");
 
         await ctx.editMessageCaption({
           caption: message,
@@ -407,17 +350,17 @@ export async function handleBuyPackage(ctx: BotContext): Promise<void> {
         });
       }
     } else {
-      const errorMsg = response.error?.message || "Xatolik yuz berdi";
+      const errorMsg = response.error?.message || ctx.t.common.error;
       await ctx.editMessageCaption({
-        caption: `❌ ${errorMsg}. Iltimos, qayta urinib ko'ring.`,
-        reply_markup: new InlineKeyboard().text("◀️ Orqaga", "packages_menu"),
+        caption: ctx.t.common.errorWithMessage(errorMsg),
+        reply_markup: new InlineKeyboard().text(ctx.t.common.back, "packages_menu"),
       });
     }
   } catch (error) {
     console.error("Error purchasing package:", error);
     await ctx.editMessageCaption({
-      caption: "❌ Xatolik yuz berdi. Iltimos, qayta urinib ko'ring.",
-      reply_markup: new InlineKeyboard().text("◀️ Orqaga", "packages_menu"),
+      caption: ctx.t.common.errorTryAgain,
+      reply_markup: new InlineKeyboard().text(ctx.t.common.back, "packages_menu"),
     });
   }
 
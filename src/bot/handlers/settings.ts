@@ -2,6 +2,9 @@ import { InlineKeyboard } from "grammy";
 import type { BotContext } from "../context.js";
 import { apiClient } from "../../api/client.js";
 import { config } from "../../config.js";
+import { sessionAuth } from "../middlewares/auth.js";
+import { setLocale } from "../middlewares/i18n.js";
+import { LOCALES, getMessages, isLocale } from "../../i18n/index.js";
 
 /**
  * Escape special Markdown characters
@@ -29,38 +32,15 @@ export async function handleShowInfo(ctx: BotContext): Promise<void> {
  * Show bot usage guide
  */
 async function showInfo(ctx: BotContext, _isCallback: boolean): Promise<void> {
-  const message =
-    `📚 *Majleesdan - Foydalanish qo'llanmasi*\n\n` +
-    `*Botdan qanday foydalanish:*\n\n` +
-    `1️⃣ *Video/Audio yuborish*\n` +
-    `Menga video yoki audio fayl yuboring. Men uni avtomatik qayta ishlab, transkriptsiya qilaman.\n\n` +
-    `2️⃣ *Kontent turini tanlash*\n` +
-    `Yuborilgandan so'ng, kontent turini tanlang:\n` +
-    `   • Ma'ruza - darslar va ma'ruzalar uchun\n` +
-    `   • CustDev - intervyu va suhbatlar uchun\n\n` +
-    `3️⃣ *Natijalarni olish*\n` +
-    `AI transkriptsiya, xulosa va asosiy fikrlarni tayyorlaydi.\n\n` +
-    `*Qo'llab-quvvatlanadigan formatlar:*\n` +
-    `📹 Video: MP4, MOV, AVI, MKV\n` +
-    `🎵 Audio: MP3, WAV, M4A, OGG, FLAC\n\n` +
-    `*Mavjud buyruqlar:*\n` +
-    `/start - Botni qayta ishga tushirish\n` +
-    `/info - Foydalanish qo'llanmasi\n` +
-    `/settings - Hisob sozlamalari\n` +
-    `/balance - Daqiqalar balansini ko'rish\n` +
-    `/pricing - Tariflarni ko'rish\n` +
-    `/help - Yordam\n` +
-    `/app - Web ilovani ochish\n\n` +
-    `*Savollaringiz bormi?*\n` +
-    `Aloqa: @majlees\\_ai`;
+  const message = ctx.t.info.guide;
 
   const keyboard = new InlineKeyboard()
-    .text("📊 Balans", "show_balance")
-    .text("📦 Tariflar", "show_plans")
+    .text(ctx.t.menu.balance, "show_balance")
+    .text(ctx.t.menu.plans, "show_plans")
     .row()
-    .text("⚙️ Sozlamalar", "show_settings")
+    .text(ctx.t.menu.settings, "show_settings")
     .row()
-    .webApp("🌐 Web ilova", config.webAppUrl);
+    .webApp(ctx.t.common.webApp, config.webAppUrl);
 
   await ctx.reply(message, {
     parse_mode: "Markdown",
@@ -88,7 +68,7 @@ export async function handleShowSettings(ctx: BotContext): Promise<void> {
  */
 async function showSettings(ctx: BotContext, isCallback: boolean): Promise<void> {
   if (!ctx.session.isAuthenticated || !ctx.session.tokens) {
-    const message = "Iltimos, avval /start buyrug'ini yuboring";
+    const message = ctx.t.common.startFirst;
     if (isCallback) {
       await ctx.answerCallbackQuery(message);
     } else {
@@ -98,7 +78,7 @@ async function showSettings(ctx: BotContext, isCallback: boolean): Promise<void>
   }
 
   try {
-    const response = await apiClient.getLinkedAccountsStatus(ctx.session.tokens.accessToken);
+    const response = await apiClient.getLinkedAccountsStatus(sessionAuth(ctx));
 
     if (!response.success || !response.data) {
       // Check if user no longer exists (deleted after account merge)
@@ -107,7 +87,7 @@ async function showSettings(ctx: BotContext, isCallback: boolean): Promise<void>
         ctx.session.tokens = undefined;
         ctx.session.user = undefined;
 
-        const message = "Sizning sessiyangiz yaroqsiz. Iltimos, /start buyrug'ini yuboring.";
+        const message = ctx.t.common.sessionInvalid;
         if (isCallback) {
           await ctx.answerCallbackQuery(message);
         } else {
@@ -116,7 +96,7 @@ async function showSettings(ctx: BotContext, isCallback: boolean): Promise<void>
         return;
       }
 
-      const errorMessage = "❌ Sozlamalarni olishda xatolik yuz berdi.";
+      const errorMessage = ctx.t.settings.fetchError;
       if (isCallback) {
         try {
           await ctx.editMessageText(errorMessage);
@@ -132,43 +112,43 @@ async function showSettings(ctx: BotContext, isCallback: boolean): Promise<void>
     const status = response.data;
 
     // Build status message
-    let message = `⚙️ *Hisob sozlamalari*\n\n`;
-    message += `*Ulangan hisoblar:*\n\n`;
+    let message = ctx.t.settings.title;
+    message += ctx.t.settings.linkedAccounts;
 
     // Google status
     if (status.google.linked) {
-      message += `✅ *Google:* ${status.google.email || "Ulangan"}\n`;
+      message += ctx.t.settings.googleLinked(status.google.email);
     } else {
-      message += `❌ *Google:* Ulanmagan\n`;
+      message += ctx.t.settings.googleNotLinked;
     }
 
     // Telegram status
     if (status.telegram.linked) {
       const username = status.telegram.username
         ? escapeMarkdown(status.telegram.username)
-        : "Ulangan";
-      message += `✅ *Telegram:* @${username}\n`;
+        : null;
+      message += ctx.t.settings.telegramLinked(username);
     } else {
-      message += `❌ *Telegram:* Ulanmagan\n`;
+      message += ctx.t.settings.telegramNotLinked;
     }
 
-    message += `\n*Hisob ulash nima?*\n`;
-    message += `Hisoblarni ulash orqali siz Google va Telegram orqali bir xil ma'lumotlarga kirishingiz mumkin.\n\n`;
+    message += ctx.t.settings.linkingExplained;
 
     // Build keyboard based on status
     const keyboard = new InlineKeyboard();
 
     if (!status.google.linked) {
-      keyboard.text("🔗 Google ulash", "link_google").row();
+      keyboard.text(ctx.t.settings.linkGoogle, "link_google").row();
     }
 
     if (status.google.linked && status.telegram.linked) {
       // Both linked - show unlink options
-      keyboard.text("🔓 Google uzish", "unlink_google").row();
-      message += `💡 *Eslatma:* Kamida bitta autentifikatsiya usuli ulangan bo'lishi kerak.\n`;
+      keyboard.text(ctx.t.settings.unlinkGoogle, "unlink_google").row();
+      message += ctx.t.settings.unlinkNote;
     }
 
-    keyboard.text("📊 Balans", "show_balance").text("🏠 Bosh sahifa", "back_to_main");
+    keyboard.text(ctx.t.settings.language, "show_language").row();
+    keyboard.text(ctx.t.menu.balance, "show_balance").text(ctx.t.menu.home, "back_to_main");
 
     if (isCallback) {
       // Check if current message is a photo (has caption) or text message
@@ -202,7 +182,7 @@ async function showSettings(ctx: BotContext, isCallback: boolean): Promise<void>
     }
   } catch (error) {
     console.error("Error fetching settings:", error);
-    const errorMessage = "❌ Sozlamalarni olishda xatolik yuz berdi.";
+    const errorMessage = ctx.t.settings.fetchError;
     if (isCallback) {
       try {
         await ctx.editMessageText(errorMessage);
@@ -221,20 +201,12 @@ async function showSettings(ctx: BotContext, isCallback: boolean): Promise<void>
 export async function handleLinkGoogle(ctx: BotContext): Promise<void> {
   await ctx.answerCallbackQuery();
 
-  const message =
-    `🔗 *Google hisobini ulash*\n\n` +
-    `Google hisobingizni ulash uchun:\n\n` +
-    `1️⃣ Web ilovani oching\n` +
-    `2️⃣ Sozlamalar bo'limiga o'ting\n` +
-    `3️⃣ "Hisoblarni ulash" tugmasini bosing\n` +
-    `4️⃣ Google hisobingiz bilan kiring\n\n` +
-    `Ulangandan so'ng, siz Google yoki Telegram orqali tizimga kirishingiz mumkin bo'ladi.\n\n` +
-    `Barcha ma'lumotlaringiz har ikki hisobda ham mavjud bo'ladi.`;
+  const message = ctx.t.settings.linkGoogleGuide;
 
   const keyboard = new InlineKeyboard()
-    .webApp("🌐 Web ilovani ochish", config.webAppUrl)
+    .webApp(ctx.t.common.openWebApp, config.webAppUrl)
     .row()
-    .text("⬅️ Sozlamalarga qaytish", "back_to_settings");
+    .text(ctx.t.settings.backToSettings, "back_to_settings");
 
   await ctx.reply(message, {
     parse_mode: "Markdown",
@@ -248,18 +220,12 @@ export async function handleLinkGoogle(ctx: BotContext): Promise<void> {
 export async function handleUnlinkGoogle(ctx: BotContext): Promise<void> {
   await ctx.answerCallbackQuery();
 
-  const message =
-    `⚠️ *Google hisobini uzish*\n\n` +
-    `Google hisobingizni uzish uchun web ilovadan foydalaning:\n\n` +
-    `1️⃣ Web ilovani oching\n` +
-    `2️⃣ Sozlamalar bo'limiga o'ting\n` +
-    `3️⃣ Google yonidagi "Uzish" tugmasini bosing\n\n` +
-    `⚠️ *Diqqat:* Google uzilgandan so'ng, faqat Telegram orqali tizimga kirishingiz mumkin bo'ladi.`;
+  const message = ctx.t.settings.unlinkGoogleGuide;
 
   const keyboard = new InlineKeyboard()
-    .webApp("🌐 Web ilovani ochish", config.webAppUrl)
+    .webApp(ctx.t.common.openWebApp, config.webAppUrl)
     .row()
-    .text("⬅️ Sozlamalarga qaytish", "back_to_settings");
+    .text(ctx.t.settings.backToSettings, "back_to_settings");
 
   await ctx.reply(message, {
     parse_mode: "Markdown",
@@ -282,14 +248,71 @@ export async function handleBackToMain(ctx: BotContext): Promise<void> {
   await ctx.answerCallbackQuery();
 
   const keyboard = new InlineKeyboard()
-    .text("🎬 Transkriptsiya qilish", "transcribe_video")
+    .text(ctx.t.menu.transcribe, "transcribe_video")
     .row()
-    .text("📊 Balans", "show_balance")
-    .text("📦 Tariflar", "show_plans")
+    .text(ctx.t.menu.balance, "show_balance")
+    .text(ctx.t.menu.plans, "show_plans")
     .row()
-    .webApp("🌐 Web ilovani ochish", config.webAppUrl);
+    .webApp(ctx.t.common.openWebApp, config.webAppUrl);
 
-  await ctx.editMessageText("Bosh menyuga xush kelibsiz! Quyidagi amallarni tanlang:", {
+  await ctx.editMessageText(ctx.t.menu.welcome, {
     reply_markup: keyboard,
   });
 }
+
+/**
+ * Build the language picker keyboard (current language is marked)
+ */
+function getLanguageKeyboard(ctx: BotContext): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  for (const locale of LOCALES) {
+    const name = getMessages(locale).languageName;
+    keyboard.text(locale === ctx.locale ? `• ${name} •` : name, `set_lang:${locale}`).row();
+  }
+  return keyboard.text(ctx.t.settings.backToSettings, "back_to_settings");
+}
+
+/**
+ * /language command - Choose the bot's UI language
+ */
+export async function handleLanguage(ctx: BotContext): Promise<void> {
+  await ctx.reply(ctx.t.settings.chooseLanguage, {
+    reply_markup: getLanguageKeyboard(ctx),
+  });
+}
+
+/**
+ * Show language picker callback (from settings)
+ */
+export async function handleShowLanguage(ctx: BotContext): Promise<void> {
+  await ctx.answerCallbackQuery();
+
+  try {
+    await ctx.editMessageText(ctx.t.settings.chooseLanguage, {
+      reply_markup: getLanguageKeyboard(ctx),
+    });
+  } catch {
+    await handleLanguage(ctx);
+  }
+}
+
+/**
+ * Handle language selection callback
+ */
+export async function handleLanguageSelection(ctx: BotContext): Promise<void> {
+  const locale = ctx.callbackQuery?.data?.replace("set_lang:", "");
+  if (!isLocale(locale)) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  ctx.session.locale = locale;
+  setLocale(ctx);
+
+  await ctx.answerCallbackQuery(ctx.t.settings.languageChanged);
+  await ctx.editMessageText(ctx.t.settings.languageChanged, {
+    reply_markup: new InlineKeyboard()
+      .text(ctx.t.settings.backToSettings, "back_to_settings")
+      .text(ctx.t.menu.home, "back_to_main"),
+  });
+}
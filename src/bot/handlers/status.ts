@@ -0,0 +1,85 @@
+import { InlineKeyboard } from "grammy";
+import type { BotContext } from "../context.js";
+import { apiClient } from "../../api/client.js";
+import { sessionAuth } from "../middlewares/auth.js";
+import { MAX_TRACK_AGE_MS, isLectureFinished, lectureTracker } from "../uploads/index.js";
+import type { TrackedLecture } from "../uploads/index.js";
+import { ensureAuthenticated, formatDate, handleUserNotFound } from "./lectures.js";
+
+const MAX_STATUS_ITEMS = 10;
+const MAX_BUTTON_TITLE_LENGTH = 40;
+
+/**
+ * /status command - Processing status of lectures uploaded from Telegram
+ * Unfinished lectures are looked up on the backend. Finished ones shown here
+ * count as notified, so the reconciler doesn't announce them again.
+ */
+export async function handleStatus(ctx: BotContext): Promise<void> {
+  if (!(await ensureAuthenticated(ctx)) || !ctx.chat) return;
+
+  const chatId = ctx.chat.id;
+  const entries = (await lectureTracker.listForChat(chatId))
+    .filter((entry) => Date.now() - entry.uploadedAt <= MAX_TRACK_AGE_MS)
+    .slice(0, MAX_STATUS_ITEMS);
+
+  if (entries.length === 0) {
+    await ctx.reply(ctx.t.status.empty);
+    return;
+  }
+
+  await ctx.replyWithChatAction("typing");
+
+  const auth = sessionAuth(ctx);
+  let userNotFound = false;
+  const current = await Promise.all(
+    entries.map(async (entry): Promise<TrackedLecture> => {
+      if (isLectureFinished(entry.status) && entry.notifiedAt) return entry;
+
+      const response = await apiClient.getLecture(auth, entry.lectureId);
+      if (!response.success || !response.data) {
+        if (response.error?.code === "USER_NOT_FOUND") userNotFound = true;
+        return entry;
+      }
+
+      const lecture = response.data.lecture;
+      const now = Date.now();
+      const finished = isLectureFinished(lecture.status);
+      const updated: TrackedLecture = {
+        ...entry,
+        title: lecture.title ?? entry.title,
+        status: lecture.status,
+        checkedAt: now,
+        finishedAt: finished ? (entry.finishedAt ?? now) : undefined,
+        notifiedAt: finished ? (entry.notifiedAt ?? now) : undefined,
+      };
+      await lectureTracker.save(updated).catch((error) => {
+        console.error("Failed to update tracked lecture " + entry.lectureId + ":", error);
+      });
+      return updated;
+    })
+  );
+
+  if (userNotFound) {
+    await handleUserNotFound(ctx);
+    return;
+  }
+
+  // Plain text - titles are user input and may contain Markdown characters
+  let text = ctx.t.status.title + "\n";
+  const keyboard = new InlineKeyboard();
+  current.forEach((entry, index) => {
+    const title = entry.title || ctx.t.notifications.defaultTitle;
+    text +=
+      `\n${index + 1}. ${title}\n` +
+      `${formatDate(new Date(entry.uploadedAt).toISOString(), ctx.t.dateLocale)} · ${ctx.t.lectures.status[entry.status]}\n`;
+
+    // Finished lectures open in the detail view
+    if (entry.status === "completed") {
+      const label = title.length > MAX_BUTTON_TITLE_LENGTH ? title.slice(0, MAX_BUTTON_TITLE_LENGTH - 1) + "…" : title;
+      keyboard.text(`${index + 1}. ${label}`, `lecture:${entry.lectureId}:all:1`).row();
+    }
+  });
+  text += "\n" + ctx.t.status.footer;
+
+  await ctx.reply(text, { reply_markup: keyboard });
+}
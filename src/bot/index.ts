@@ -1,9 +1,13 @@
 import { Bot, session } from "grammy";
+import { sequentialize } from "@grammyjs/runner";
 import { config } from "../config.js";
 import type { BotContext } from "./context.js";
 import { createInitialSessionData } from "./context.js";
+import { createSessionStorage, getSessionKey } from "./session.js";
 import { loggerMiddleware } from "./middlewares/logger.js";
 import { authMiddleware } from "./middlewares/auth.js";
+import { i18nMiddleware } from "./middlewares/i18n.js";
+import { uploadQueue } from "./uploads/index.js";
 import {
   handleStart,
   handleHelp,
@@ -16,6 +20,23 @@ import {
   BUTTON_PLANS,
   handleMedia,
   handleTypeSelection,
+  handleTranscriptionLanguageSelection,
+  handleUploadCancel,
+  handleTrimRequest,
+  handleTrimRange,
+  handleLectures,
+  handleLecturesPage,
+  handleLectureDetail,
+  handleLectureSection,
+  handleExport,
+  handleExportMenu,
+  handleExportFormat,
+  handleInlineQuery,
+  handleAsk,
+  handleAskStart,
+  handleAskExit,
+  handleQuestion,
+  handleStatus,
   handlePricing,
   handlePlanSelection,
   handlePackagesMenu,
@@ -33,6 +54,9 @@ import {
   handleUnlinkGoogle,
   handleBackToSettings,
   handleBackToMain,
+  handleLanguage,
+  handleShowLanguage,
+  handleLanguageSelection,
 } from "./handlers/index.js";
 
 export function createBot(): Bot<BotContext> {
@@ -48,15 +72,25 @@ export function createBot(): Bot<BotContext> {
 
   const bot = new Bot<BotContext>(config.botToken, botConfig);
 
+  // Queued uploads download files and post progress through the bot API
+  uploadQueue.attach(bot.api);
+
   if (config.useLocalBotApi) {
     console.log("Using Local Bot API at: " + config.localBotApiUrl);
     console.log("Max file size: " + (config.maxFileSize / 1024 / 1024 / 1024).toFixed(1) + " GB");
   }
 
-  // Session middleware (must be first)
+  // Updates of one chat are handled one at a time. In webhook mode they
+  // arrive concurrently (e.g. the files of an album), and the session
+  // middleware has no locking - the last write would win.
+  bot.use(sequentialize(getSessionKey));
+
+  // Session middleware (first after sequentialize)
   bot.use(
     session({
       initial: createInitialSessionData,
+      storage: createSessionStorage(),
+      getSessionKey,
     })
   );
 
@@ -68,6 +102,9 @@ export function createBot(): Bot<BotContext> {
   // Auth middleware - authenticates users with backend
   bot.use(authMiddleware);
 
+  // i18n middleware - picks the UI language (after auth so the account language is known)
+  bot.use(i18nMiddleware);
+
   // Register command handlers
   bot.command("start", handleStart);
   bot.command("help", handleHelp);
@@ -76,6 +113,12 @@ export function createBot(): Bot<BotContext> {
   bot.command(["balance", "balans", "daqiqalar"], handleBalance);
   bot.command(["info", "malumot", "qollanma"], handleInfo);
   bot.command(["settings", "sozlamalar"], handleSettings);
+  bot.command(["language", "lang", "til"], handleLanguage);
+  bot.command(["lectures", "maruzalar", "yozuvlar"], handleLectures);
+  bot.command(["export", "eksport"], handleExport);
+  bot.command(["ask", "savol"], handleAsk);
+  bot.command(["exit", "stop"], handleAskExit);
+  bot.command(["status", "holat"], handleStatus);
 
   // Handle text button messages
   bot.hears(BUTTON_TRANSCRIBE, handleTextTranscribe);
@@ -87,6 +130,12 @@ export function createBot(): Bot<BotContext> {
   bot.on(":audio", handleMedia);
   bot.on(":voice", handleMedia);
   bot.on(":video_note", handleMedia);
+  bot.on(":document", handleMedia);
+
+  // Time range typed after pressing the trim button
+  bot.on("message:text", handleTrimRange);
+  // Questions while Q&A mode is on (after the trim prompt, which takes precedence)
+  bot.on("message:text", handleQuestion);
 
   // Handle callback queries for main menu
   bot.callbackQuery("transcribe_video", handleTranscribeVideo);
@@ -95,6 +144,23 @@ export function createBot(): Bot<BotContext> {
 
   // Handle callback queries for type selection
   bot.callbackQuery(/^type:/, handleTypeSelection);
+  bot.callbackQuery(/^lang:/, handleTranscriptionLanguageSelection);
+  bot.callbackQuery(/^upload_cancel:/, handleUploadCancel);
+  bot.callbackQuery(/^trim:/, handleTrimRequest);
+
+  // Handle callback queries for the lecture list
+  bot.callbackQuery(/^lectures:/, handleLecturesPage);
+  bot.callbackQuery(/^lecture:/, handleLectureDetail);
+  bot.callbackQuery(/^lecture_(view|switch):/, handleLectureSection);
+  bot.callbackQuery(/^export:/, handleExportMenu);
+  bot.callbackQuery(/^export_format:/, handleExportFormat);
+
+  // Handle callback queries for Q&A mode
+  bot.callbackQuery(/^ask:/, handleAskStart);
+  bot.callbackQuery("ask_exit", handleAskExit);
+
+  // Inline mode - search and share lectures from any chat
+  bot.on("inline_query", handleInlineQuery);
 
   // Handle callback queries for pricing/subscription
   bot.callbackQuery(/^plan_/, handlePlanSelection);
@@ -112,6 +178,10 @@ export function createBot(): Bot<BotContext> {
   bot.callbackQuery("back_to_settings", handleBackToSettings);
   bot.callbackQuery("back_to_main", handleBackToMain);
 
+  // Handle callback queries for language selection
+  bot.callbackQuery("show_language", handleShowLanguage);
+  bot.callbackQuery(/^set_lang:/, handleLanguageSelection);
+
   // Error handling
   bot.catch((err) => {
     console.error("Bot error:", err);
@@ -1,6 +1,8 @@
 import type { NextFunction } from "grammy";
 import type { BotContext } from "../context.js";
 import { apiClient } from "../../api/index.js";
+import type { AuthCredentials, AuthTokens } from "../../api/index.js";
+import { getLatestTokens, getSessionKey, setLatestTokens, updateSession } from "../session.js";
 
 async function getUserProfilePhotoUrl(ctx: BotContext, userId: number): Promise<string | undefined> {
   try {
@@ -54,6 +56,8 @@ export async function authMiddleware(
     if (response.success && response.data) {
       ctx.session.user = response.data.user;
       ctx.session.tokens = response.data.tokens;
+      const sessionKey = getSessionKey(ctx);
+      if (sessionKey) setLatestTokens(sessionKey, response.data.tokens);
       ctx.session.isAuthenticated = true;
       ctx.session.isNewUser = response.data.isNewUser;
 
@@ -79,8 +83,63 @@ export async function requireAuth(
   callback: () => Promise<void>
 ): Promise<void> {
   if (!ctx.session.isAuthenticated) {
-    await ctx.reply("Please start the bot first with /start to authenticate.");
+    await ctx.reply(ctx.t.common.startFirst);
     return;
   }
   await callback();
 }
+
+/**
+ * Build API credentials backed by the user's session
+ * Uses the newest tokens of the session, which a background upload may have
+ * refreshed while this update was handled. Refreshed tokens are written back
+ * to the session; if the refresh token is rejected too, the session is
+ * marked unauthenticated so the next update logs the user in again.
+ */
+export function sessionAuth(ctx: BotContext): AuthCredentials {
+  const key = getSessionKey(ctx);
+  // A logged out session has no tokens, whatever was issued to it before
+  const latest = key ? getLatestTokens(key) : undefined;
+  const tokens = ctx.session.tokens && (latest ?? ctx.session.tokens);
+  if (!tokens) {
+    throw new Error("Session has no auth tokens");
+  }
+
+  return {
+    tokens,
+    onTokensRefreshed: (refreshed) => {
+      if (key) setLatestTokens(key, refreshed);
+      ctx.session.tokens = refreshed;
+    },
+    onRefreshFailed: () => {
+      ctx.session.isAuthenticated = false;
+    },
+  };
+}
+
+/**
+ * Build API credentials for work that outlives the update (queued uploads)
+ * ctx.session is no longer saved once the handler returns, so refreshed
+ * tokens are written straight to session storage - after being recorded as
+ * the session's newest, so a handler saving its copy doesn't undo them.
+ */
+export function storedSessionAuth(sessionKey: string | number, tokens: AuthTokens): AuthCredentials {
+  return {
+    tokens: getLatestTokens(sessionKey) ?? tokens,
+    onTokensRefreshed: (refreshed) => {
+      setLatestTokens(sessionKey, refreshed);
+      updateSession(sessionKey, (session) => {
+        session.tokens = refreshed;
+      }).catch((error) => {
+        console.error("Failed to save refreshed tokens:", error);
+      });
+    },
+    onRefreshFailed: () => {
+      updateSession(sessionKey, (session) => {
+        session.isAuthenticated = false;
+      }).catch((error) => {
+        console.error("Failed to update session:", error);
+      });
+    },
+  };
+}
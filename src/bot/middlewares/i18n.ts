@@ -0,0 +1,25 @@
+import type { NextFunction } from "grammy";
+import type { BotContext } from "../context.js";
+import { getMessages, resolveLocale } from "../../i18n/index.js";
+
+/**
+ * Pick the UI language for this update
+ * The user's own choice wins, then the language stored on their account,
+ * then the language their Telegram client reports.
+ */
+export async function i18nMiddleware(
+  ctx: BotContext,
+  next: NextFunction
+): Promise<void> {
+  setLocale(ctx);
+  await next();
+}
+
+/**
+ * (Re)apply the locale to the context, e.g. after the user changes it
+ */
+export function setLocale(ctx: BotContext): void {
+  const languageCode = ctx.session.user?.telegramLanguageCode ?? ctx.from?.language_code;
+  ctx.locale = resolveLocale(ctx.session.locale, languageCode);
+  ctx.t = getMessages(ctx.locale);
+}
@@ -0,0 +1,132 @@
+import path from "path";
+import { enhanceStorage, MemorySessionStorage } from "grammy";
+import type { Context, Enhance, Migrations, StorageAdapter } from "grammy";
+import type { AuthTokens } from "../api/index.js";
+import { config } from "../config.js";
+import { FileStorage } from "../storage/index.js";
+import type { SessionData } from "./context.js";
+
+/**
+ * SessionData schema migrations
+ * Stored sessions carry the version they were written with and are upgraded
+ * on read. Add a new entry whenever the shape of SessionData changes.
+ */
+const sessionMigrations: Migrations = {
+  // v1: first versioned schema (sessions written before versioning get this)
+  1: (old: Partial<SessionData>): SessionData => ({
+    ...old,
+    isAuthenticated: old.isAuthenticated ?? false,
+  }),
+  // v2: uploads go through a queue - the single pendingMedia/isUploading pair is gone
+  2: (old: SessionData & { pendingMedia?: unknown; isUploading?: boolean }): SessionData => {
+    const { pendingMedia: _pendingMedia, isUploading: _isUploading, ...rest } = old;
+    return rest;
+  },
+};
+
+let baseStorage: StorageAdapter<SessionData> | undefined;
+
+// Newest tokens of each session, set whenever they are issued or refreshed.
+// Sessions are read and written with these, so a handler saving its older
+// copy of the session can't undo a refresh a background upload made meanwhile
+// (the old refresh token is no longer valid once it has been rotated).
+const latestTokens = new Map<string, AuthTokens>();
+
+export function getLatestTokens(key: string | number): AuthTokens | undefined {
+  return latestTokens.get(String(key));
+}
+
+export function setLatestTokens(key: string | number, tokens: AuthTokens): void {
+  latestTokens.set(String(key), tokens);
+}
+
+/**
+ * Swap in the newest tokens of a logged in session (logged out ones stay logged out)
+ */
+function withLatestTokens(key: string, data: SessionData): SessionData {
+  const latest = latestTokens.get(key);
+  if (data.tokens && latest) {
+    data.tokens = latest;
+  }
+  return data;
+}
+
+function trackLatestTokens(storage: StorageAdapter<SessionData>): StorageAdapter<SessionData> {
+  return {
+    read: async (key) => {
+      const data = await storage.read(key);
+      return data && withLatestTokens(key, data);
+    },
+    write: (key, data) => storage.write(key, withLatestTokens(key, data)),
+    delete: (key) => {
+      latestTokens.delete(key);
+      return storage.delete(key);
+    },
+  };
+}
+
+/**
+ * Storage backend selected by config, shared by the bot and by code that
+ * reads sessions outside of an update (e.g. backend notifications)
+ */
+function getBaseStorage(): StorageAdapter<SessionData> {
+  if (baseStorage) return baseStorage;
+
+  if (config.sessionStorage === "memory") {
+    console.log("Session storage: memory (sessions are lost on restart)");
+    baseStorage = trackLatestTokens(new MemorySessionStorage<SessionData>());
+    return baseStorage;
+  }
+
+  const directory = path.join(config.dataDir, "sessions");
+  console.log("Session storage: file (" + directory + ")");
+
+  baseStorage = trackLatestTokens(
+    enhanceStorage<SessionData>({
+      storage: new FileStorage<Enhance<SessionData>>(directory),
+      migrations: sessionMigrations,
+    })
+  );
+  return baseStorage;
+}
+
+/**
+ * Create the session storage adapter for the bot's session middleware
+ */
+export function createSessionStorage(): StorageAdapter<SessionData> {
+  return getBaseStorage();
+}
+
+/**
+ * Session key for an update
+ * Inline queries have no chat, so they use the session of the user's
+ * private chat with the bot (whose id is the user's id).
+ */
+export function getSessionKey(ctx: Context): string | undefined {
+  return (ctx.chat?.id ?? ctx.from?.id)?.toString();
+}
+
+/**
+ * Read a session without going through the bot
+ * Private chat sessions are keyed by the user's Telegram id.
+ */
+export async function readSession(key: string | number): Promise<SessionData | undefined> {
+  return getBaseStorage().read(String(key));
+}
+
+/**
+ * Update a session from outside an update handler (e.g. background uploads)
+ * A handler running for the same user at the same time may overwrite this
+ * change with its own copy, so only use it for data that tolerates that.
+ * Tokens don't - save them with setLatestTokens first.
+ */
+export async function updateSession(
+  key: string | number,
+  update: (data: SessionData) => void
+): Promise<void> {
+  const storage = getBaseStorage();
+  const data = await storage.read(String(key));
+  if (!data) return;
+  update(data);
+  await storage.write(String(key), data);
+}
@@ -0,0 +1,45 @@
+// Telegram rejects messages longer than this (counted after entity parsing)
+export const MAX_MESSAGE_LENGTH = 4096;
+
+// Break points tried in order, from the most to the least natural
+const SPLIT_SEPARATORS = ["\n\n", "\n", ". ", " "];
+
+/**
+ * Escape text for messages sent with parse_mode "HTML"
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Split text into parts of at most maxLength characters
+ * Parts end at a paragraph, line, sentence or word break when one falls in
+ * the second half of the part, and never in the middle of a surrogate pair.
+ */
+export function splitText(text: string, maxLength: number = MAX_MESSAGE_LENGTH): string[] {
+  const parts: string[] = [];
+  let rest = text.trim();
+
+  while (rest.length > maxLength) {
+    const cut = findSplitPoint(rest, maxLength);
+    const part = rest.slice(0, cut).trimEnd();
+    if (part) parts.push(part);
+    rest = rest.slice(cut).trimStart();
+  }
+
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+function findSplitPoint(text: string, maxLength: number): number {
+  for (const separator of SPLIT_SEPARATORS) {
+    const index = text.lastIndexOf(separator, maxLength - separator.length);
+    if (index >= maxLength / 2) {
+      return index + separator.length;
+    }
+  }
+
+  // No break point - cut hard, keeping emoji and other astral characters whole
+  const code = text.charCodeAt(maxLength - 1);
+  return code >= 0xd800 && code <= 0xdbff ? maxLength - 1 : maxLength;
+}
@@ -0,0 +1,9 @@
+export { uploadQueue } from "./queue.js";
+export type { UploadJob, UploadJobStatus } from "./queue.js";
+export {
+  getSummarizationTypeName,
+  getTranscriptionLanguageName,
+  getBillableDuration,
+} from "./status.js";
+export { lectureTracker, isLectureFinished, MAX_TRACK_AGE_MS } from "./tracker.js";
+export type { TrackedLecture } from "./tracker.js";
@@ -0,0 +1,46 @@
+import path from "path";
+import type { ResumableUpload, TranscriptionLanguage } from "../../api/upload.js";
+import { config } from "../../config.js";
+import type { Locale } from "../../i18n/index.js";
+import { FileStorage } from "../../storage/index.js";
+import type { PendingMedia } from "../context.js";
+
+// A TUS upload that was in progress, with the job it belongs to
+export interface UploadJournalEntry {
+  chatId: number; // Owner (session key)
+  locale: Locale;
+  media: PendingMedia;
+  summarizationType: "lecture" | "custdev";
+  language: TranscriptionLanguage;
+  upload: ResumableUpload;
+  updatedAt: number;
+}
+
+/**
+ * On-disk record of TUS uploads in progress
+ * An entry is written when the backend creates the upload and removed once
+ * the upload finishes either way, so whatever is left at startup was cut
+ * short by a restart.
+ */
+class UploadJournal {
+  private storage?: FileStorage<UploadJournalEntry>;
+
+  private getStorage(): FileStorage<UploadJournalEntry> {
+    this.storage ??= new FileStorage<UploadJournalEntry>(path.join(config.dataDir, "uploads"));
+    return this.storage;
+  }
+
+  async save(key: string, entry: UploadJournalEntry): Promise<void> {
+    await this.getStorage().write(key, entry);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.getStorage().delete(key);
+  }
+
+  async *entries(): AsyncIterable<[key: string, entry: UploadJournalEntry]> {
+    yield* this.getStorage().readAllEntries();
+  }
+}
+
+export const uploadJournal = new UploadJournal();
@@ -0,0 +1,181 @@
+import { statfs } from "fs/promises";
+import os from "os";
+import { config } from "../../config.js";
+
+// How long to wait before checking the disk again when it is nearly full
+const DISK_RETRY_DELAY_MS = 30000;
+// Pause after the backend reports it is overloaded (doubles while it stays busy)
+const BUSY_BASE_DELAY_MS = 15000;
+const BUSY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+interface Waiter {
+  resolve: () => void;
+  onPosition?: (position: number) => void;
+  position?: number; // Last position reported to onPosition
+}
+
+/**
+ * Process-wide limit on concurrent uploads
+ * Each user's queue holds at most one slot at a time and waiters are served
+ * first come first served, so users take turns instead of one batch
+ * blocking everyone. New uploads are held back while the local disk is
+ * nearly full or the backend reports it is overloaded.
+ */
+class UploadWorkerPool {
+  private active = 0;
+  private waiters: Waiter[] = [];
+  private pausedUntil = 0;
+  private busyStreak = 0;
+  private dispatching = false;
+  private redispatch = false;
+  private retryTimer?: NodeJS.Timeout;
+
+  constructor(private readonly concurrency: number) {}
+
+  /**
+   * Wait for a free upload slot
+   * onPosition is called with the 1-based place in line whenever it changes.
+   * Resolves with a function that must be called to free the slot, or with
+   * undefined if signal aborted first (the place in line is given up).
+   */
+  async acquire(
+    onPosition?: (position: number) => void,
+    signal?: AbortSignal
+  ): Promise<(() => void) | undefined> {
+    if (signal?.aborted) return undefined;
+
+    const acquired = await new Promise<boolean>((resolve) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        // Already given a slot - the caller releases it
+        if (index === -1) return;
+        this.waiters.splice(index, 1);
+        this.notifyPositions();
+        resolve(false);
+      };
+      const waiter: Waiter = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(true);
+        },
+        onPosition,
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+      void this.dispatch();
+    });
+    if (!acquired) return undefined;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      void this.dispatch();
+    };
+  }
+
+  /**
+   * The backend rejected an upload as overloaded - hold new uploads back
+   */
+  reportBusy(): void {
+    const delay = Math.min(BUSY_BASE_DELAY_MS * 2 ** this.busyStreak, BUSY_MAX_DELAY_MS);
+    this.busyStreak++;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+    console.log(`Backend busy, pausing new uploads for ${Math.round(delay / 1000)}s`);
+  }
+
+  /**
+   * An upload went through - the backend is accepting work again
+   */
+  reportHealthy(): void {
+    this.busyStreak = 0;
+  }
+
+  private async dispatch(): Promise<void> {
+    if (this.dispatching) {
+      this.redispatch = true;
+      return;
+    }
+    this.dispatching = true;
+
+    try {
+      do {
+        this.redispatch = false;
+        while (this.waiters.length > 0 && this.active < this.concurrency) {
+          const delay = await this.getBackpressureDelay();
+          if (delay > 0) {
+            this.scheduleDispatch(delay);
+            break;
+          }
+
+          const waiter = this.waiters.shift()!;
+          this.active++;
+          waiter.resolve();
+        }
+      } while (this.redispatch && !this.retryTimer);
+
+      this.notifyPositions();
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private notifyPositions(): void {
+    this.waiters.forEach((waiter, index) => {
+      if (waiter.position === index + 1) return;
+      waiter.position = index + 1;
+      waiter.onPosition?.(waiter.position);
+    });
+  }
+
+  private scheduleDispatch(delay: number): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      void this.dispatch();
+    }, delay);
+  }
+
+  /**
+   * Milliseconds to wait before starting another upload (0 = go ahead)
+   */
+  private async getBackpressureDelay(): Promise<number> {
+    const pausedFor = this.pausedUntil - Date.now();
+    if (pausedFor > 0) return pausedFor;
+
+    const freeBytes = await getFreeDiskSpace();
+    if (freeBytes !== undefined && freeBytes < config.uploadMinFreeDiskBytes) {
+      console.log(`Low disk space (${Math.round(freeBytes / 1024 / 1024)} MB free), holding uploads`);
+      return DISK_RETRY_DELAY_MS;
+    }
+
+    return 0;
+  }
+}
+
+/**
+ * Free space on the disks uploads are written to (the smallest one)
+ * Local Bot API downloads land in its working directory, temp copies in tmpdir.
+ */
+async function getFreeDiskSpace(): Promise<number | undefined> {
+  const directories = [os.tmpdir()];
+  if (config.useLocalBotApi) {
+    directories.push(config.localBotApiFilesPath || "/var/lib/telegram-bot-api");
+  }
+
+  let minFree: number | undefined;
+  for (const directory of directories) {
+    try {
+      const stats = await statfs(directory);
+      const free = stats.bavail * stats.bsize;
+      minFree = minFree === undefined ? free : Math.min(minFree, free);
+    } catch {
+      // Directory not reachable from this process - nothing to check
+    }
+  }
+  return minFree;
+}
+
+export const uploadPool = new UploadWorkerPool(config.uploadConcurrency);
@@ -0,0 +1,506 @@
+import type { Api } from "grammy";
+import { InlineKeyboard } from "grammy";
+import { apiClient } from "../../api/client.js";
+import { uploadService } from "../../api/upload.js";
+import type {
+  ResumableUpload,
+  TranscriptionLanguage,
+  UploadOptions,
+  UploadProgress,
+  UploadResult,
+} from "../../api/upload.js";
+import type { AuthCredentials } from "../../api/index.js";
+import { config } from "../../config.js";
+import { getMessages } from "../../i18n/index.js";
+import type { Locale } from "../../i18n/index.js";
+import { getTelegramFileInput, probeDuration } from "../../media/index.js";
+import type { PendingMedia } from "../context.js";
+import { storedSessionAuth } from "../middlewares/auth.js";
+import { readSession } from "../session.js";
+import { uploadJournal } from "./journal.js";
+import type { UploadJournalEntry } from "./journal.js";
+import { uploadPool } from "./pool.js";
+import { lectureTracker } from "./tracker.js";
+import { formatUploadStatus, getBillableDuration, isJobActive } from "./status.js";
+
+// Minimum gap between progress edits of the status message (Telegram rate limits)
+const STATUS_UPDATE_INTERVAL_MS = 3000;
+// Times a job goes back in line when the backend is overloaded before failing
+const MAX_BUSY_RETRIES = 3;
+
+export type UploadJobStatus =
+  | "queued"
+  | "downloading"
+  | "uploading"
+  | "done"
+  | "failed"
+  | "rate_limited"
+  | "too_large"
+  | "not_enough_minutes"
+  | "cancelled";
+
+export interface UploadJob {
+  media: PendingMedia;
+  summarizationType: "lecture" | "custdev";
+  language: TranscriptionLanguage;
+  status: UploadJobStatus;
+  progress?: UploadProgress; // Percent, speed and ETA, when the upload path reports them
+  position?: number; // Place in the process-wide line while waiting for a slot
+  busyRetries?: number; // Times the backend turned this job away as overloaded
+  resume?: ResumableUpload; // TUS upload already created on the backend
+  abort?: AbortController; // Cancels the job while it is running
+  wait?: AbortController; // Takes the job out of the pool's line while it waits for a slot
+  lectureId?: string;
+}
+
+// Uploads of one user (chat) - the current batch shares one status message
+interface UserQueue {
+  chatId: number;
+  locale: Locale;
+  jobs: UploadJob[];
+  running: boolean;
+  statusMessageId?: number;
+  lastStatusText?: string;
+  lastStatusUpdate: number;
+  statusUpdate: Promise<void>; // Serializes status message edits
+}
+
+/**
+ * Per-user upload queue
+ * Files are uploaded one after another outside of the update handler, so the
+ * bot keeps answering while a batch is uploading. Each file waits for a slot
+ * in the process-wide worker pool. Queue state lives in memory; only the
+ * user's choices before queueing are kept in the session.
+ */
+class UploadQueue {
+  private api?: Api;
+  private queues = new Map<number, UserQueue>();
+
+  /**
+   * Give the queue the bot API used to download files and post status
+   */
+  attach(api: Api): void {
+    this.api = api;
+  }
+
+  /**
+   * Number of the user's files queued or uploading
+   */
+  activeCount(chatId: number): number {
+    return this.queues.get(chatId)?.jobs.filter(isJobActive).length ?? 0;
+  }
+
+  /**
+   * Total known duration (seconds) of the user's files not uploaded yet
+   */
+  activeDuration(chatId: number): number {
+    const jobs = this.queues.get(chatId)?.jobs.filter(isJobActive) ?? [];
+    return jobs.reduce((total, job) => total + (getBillableDuration(job.media) ?? 0), 0);
+  }
+
+  /**
+   * Add a file to the user's queue and start uploading if idle
+   * A file added after the previous batch finished starts a new status message.
+   */
+  async enqueue(
+    media: PendingMedia,
+    summarizationType: "lecture" | "custdev",
+    language: TranscriptionLanguage,
+    locale: Locale,
+    resume?: ResumableUpload
+  ): Promise<void> {
+    let queue = this.queues.get(media.chatId);
+    if (!queue || !queue.jobs.some(isJobActive)) {
+      queue = {
+        chatId: media.chatId,
+        locale,
+        jobs: [],
+        running: false,
+        lastStatusUpdate: 0,
+        statusUpdate: Promise.resolve(),
+      };
+      this.queues.set(media.chatId, queue);
+    }
+
+    queue.locale = locale;
+    queue.jobs.push({ media, summarizationType, language, status: "queued", resume });
+    await this.updateStatus(queue, true);
+
+    if (!queue.running) {
+      this.run(queue).catch((error) => {
+        console.error("Upload queue error:", error);
+      });
+    }
+  }
+
+  /**
+   * Pick up TUS uploads that were cut short by a restart
+   * Each one goes back in its owner's queue and continues from the offset
+   * the server already has. Owners are told their upload carried on.
+   */
+  async resumeInterrupted(): Promise<void> {
+    const byChat = new Map<number, UploadJournalEntry[]>();
+    for await (const [, entry] of uploadJournal.entries()) {
+      const entries = byChat.get(entry.chatId) ?? [];
+      entries.push(entry);
+      byChat.set(entry.chatId, entries);
+    }
+
+    for (const [chatId, entries] of byChat) {
+      const locale = entries[0]!.locale;
+      console.log(`Resuming ${entries.length} interrupted upload(s) for chat ${chatId}`);
+
+      try {
+        await this.getApi().sendMessage(chatId, getMessages(locale).uploads.resumed(entries.length));
+      } catch (error) {
+        console.error("Failed to notify user about resumed uploads:", error);
+      }
+
+      for (const entry of entries) {
+        await this.enqueue(entry.media, entry.summarizationType, entry.language, entry.locale, entry.upload);
+      }
+    }
+  }
+
+  /**
+   * Cancel one of the user's files
+   * A running upload is aborted (the backend upload is terminated and local
+   * files removed); a waiting one is dropped from the queue.
+   * Returns false if the file already finished.
+   */
+  async cancel(chatId: number, id: string): Promise<boolean> {
+    const queue = this.queues.get(chatId);
+    const job = queue?.jobs.find((queued) => queued.media.id === id);
+    if (!queue || !job || !isJobActive(job)) {
+      return false;
+    }
+
+    console.log(`Cancelling upload ${id} for chat ${chatId}`);
+
+    if (job.abort) {
+      // process() notices the abort and finishes the job as cancelled
+      job.abort.abort();
+      return true;
+    }
+
+    job.status = "cancelled";
+    job.position = undefined;
+    job.wait?.abort();
+
+    // An upload restored from the journal already exists on the backend
+    if (job.resume) {
+      await this.abandon(chatId, job.resume);
+      await uploadJournal.remove(chatId + "-" + id).catch((error) => {
+        console.error("Failed to update upload journal:", error);
+      });
+    }
+
+    await this.updateStatus(queue, true);
+    return true;
+  }
+
+  /**
+   * Terminate a TUS upload on the backend and remove its local files
+   * (only the files if the user has logged out)
+   */
+  private async abandon(chatId: number, upload: ResumableUpload): Promise<void> {
+    try {
+      const session = await readSession(chatId);
+      const auth = session?.tokens ? storedSessionAuth(chatId, session.tokens) : undefined;
+      await uploadService.abandonUpload(auth, upload);
+    } catch (error) {
+      console.error("Failed to abandon upload:", error);
+    }
+  }
+
+  private getApi(): Api {
+    if (!this.api) {
+      throw new Error("Upload queue is not attached to the bot");
+    }
+    return this.api;
+  }
+
+  private async run(queue: UserQueue): Promise<void> {
+    queue.running = true;
+    try {
+      let job: UploadJob | undefined;
+      while ((job = queue.jobs.find((queued) => queued.status === "queued"))) {
+        const waiting = job;
+        waiting.wait = new AbortController();
+        const release = await uploadPool.acquire((position) => {
+          waiting.position = position;
+          void this.updateStatus(queue, true);
+        }, waiting.wait.signal);
+        waiting.wait = undefined;
+        waiting.position = undefined;
+
+        // Cancelled while waiting for a slot
+        if (!release || waiting.status !== "queued") {
+          release?.();
+          continue;
+        }
+
+        try {
+          await this.process(queue, waiting);
+        } finally {
+          release();
+        }
+        await this.updateStatus(queue, true);
+      }
+    } finally {
+      queue.running = false;
+    }
+  }
+
+  private async process(queue: UserQueue, job: UploadJob): Promise<void> {
+    const journalKey = queue.chatId + "-" + job.media.id;
+
+    const onProgress = (progress: UploadProgress) => {
+      job.progress = progress;
+      void this.updateStatus(queue);
+    };
+
+    // Record the TUS upload so it can be resumed if the bot restarts
+    const onUploadCreated = async (upload: ResumableUpload) => {
+      job.resume = upload;
+      try {
+        await uploadJournal.save(journalKey, {
+          chatId: queue.chatId,
+          locale: queue.locale,
+          media: job.media,
+          summarizationType: job.summarizationType,
+          language: job.language,
+          upload,
+          updatedAt: Date.now(),
+        });
+      } catch (error) {
+        console.error("Failed to write upload journal:", error);
+      }
+    };
+
+    const abort = new AbortController();
+    job.abort = abort;
+    job.status = job.resume ? "uploading" : "downloading";
+    await this.updateStatus(queue, true);
+
+    try {
+      // Read tokens now - they may have been refreshed while the job waited
+      const session = await readSession(queue.chatId);
+      if (!session?.tokens) {
+        throw new Error("Session has no auth tokens");
+      }
+      const auth = storedSessionAuth(queue.chatId, session.tokens);
+
+      const result = job.resume
+        ? await uploadService.resumeUpload(auth, job.resume, onProgress, onUploadCreated, abort.signal)
+        : await this.upload(queue, job, auth, onProgress, onUploadCreated, abort.signal);
+
+      // Stopped before uploading - upload() set the status
+      if (!result) return;
+
+      if (result.isCancelled || abort.signal.aborted) {
+        job.status = "cancelled";
+        console.log("Upload cancelled by user");
+        return;
+      }
+
+      if (result.isServerBusy) {
+        // Backend overloaded - pause the pool and put the file back in line
+        uploadPool.reportBusy();
+        job.busyRetries = (job.busyRetries ?? 0) + 1;
+        if (job.busyRetries <= MAX_BUSY_RETRIES) {
+          console.log(`Backend busy, requeueing upload (${job.busyRetries}/${MAX_BUSY_RETRIES})`);
+          job.status = "queued";
+          job.progress = undefined;
+          return;
+        }
+      }
+
+      if (result.success && result.lectureId) {
+        uploadPool.reportHealthy();
+        job.status = "done";
+        job.lectureId = result.lectureId;
+        console.log("Upload successful. Lecture ID: " + result.lectureId);
+
+        // Followed until the user hears how processing ended (see reconciler.ts)
+        await lectureTracker
+          .save({
+            lectureId: result.lectureId,
+            chatId: queue.chatId,
+            title: job.media.title || job.media.fileName,
+            summarizationType: job.summarizationType,
+            status: "pending",
+            uploadedAt: Date.now(),
+          })
+          .catch((error) => {
+            console.error("Failed to record uploaded lecture:", error);
+          });
+      } else if (result.isRateLimited) {
+        job.status = "rate_limited";
+        console.log("Upload rate limited for user");
+      } else {
+        throw new Error(result.error || "Upload failed");
+      }
+    } catch (error) {
+      if (abort.signal.aborted) {
+        job.status = "cancelled";
+        console.log("Upload cancelled by user");
+        return;
+      }
+
+      console.error("Upload error:", error);
+
+      // Check if it's a "file is too big" error from Telegram
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const isFileTooLarge = errorMessage.includes("file is too big") || errorMessage.includes("file_too_big");
+      job.status = isFileTooLarge ? "too_large" : "failed";
+    } finally {
+      job.abort = undefined;
+
+      // Finished one way or the other - nothing left to resume. A failed
+      // upload is dropped on the backend and its local files removed, since
+      // the journal entry was all that pointed to them. (Cancelled uploads
+      // were already cleaned up by the upload service.)
+      if (job.status !== "queued") {
+        if (job.resume && job.status !== "done" && job.status !== "cancelled") {
+          await this.abandon(queue.chatId, job.resume);
+        }
+        await uploadJournal.remove(journalKey).catch((error) => {
+          console.error("Failed to update upload journal:", error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Fetch the file from Telegram and upload it to the backend
+   * Returns undefined (with the job's status set) if the file isn't uploaded.
+   */
+  private async upload(
+    queue: UserQueue,
+    job: UploadJob,
+    auth: AuthCredentials,
+    onProgress: (progress: UploadProgress) => void,
+    onUploadCreated: (upload: ResumableUpload) => Promise<void>,
+    signal: AbortSignal
+  ): Promise<UploadResult | undefined> {
+    const api = this.getApi();
+
+    // grammY types its signal parameter with the abort-controller polyfill
+    const file = await api.getFile(job.media.fileId, signal as Parameters<Api["getFile"]>[1]);
+    if (!file.file_path) {
+      throw new Error("Failed to get file path");
+    }
+
+    // Large documents weren't probed when they were sent (see media.ts) - the
+    // minutes check runs now that the file is here
+    if (!job.media.duration) {
+      job.media.duration = await probeDuration(getTelegramFileInput(file.file_path, api.token));
+      if (!(await this.hasMinutes(auth, job))) {
+        console.log("Not enough minutes for upload " + job.media.id);
+        job.status = "not_enough_minutes";
+        return undefined;
+      }
+    }
+
+    job.status = "uploading";
+    await this.updateStatus(queue, true);
+
+    const uploadOptions: UploadOptions = {
+      filename: job.media.fileName || "upload_" + Date.now(),
+      mimeType: job.media.mimeType || "application/octet-stream",
+      language: job.language,
+      summarizationType: job.summarizationType,
+      duration: getBillableDuration(job.media),
+      trim: job.media.trim,
+      title: job.media.title,
+    };
+
+    if (config.useLocalBotApi) {
+      // Local Bot API returns a local file path
+      // The file is stored locally by telegram-bot-api server
+      return uploadService.uploadFromLocalPath(
+        auth,
+        file.file_path,
+        uploadOptions,
+        undefined, // botToken
+        undefined, // localApiUrl
+        onProgress,
+        onUploadCreated,
+        signal
+      );
+    }
+
+    // Cloud API - construct URL to download file
+    const fileUrl = "https://api.telegram.org/file/bot" + api.token + "/" + file.file_path;
+    return uploadService.uploadFromUrl(auth, fileUrl, uploadOptions, onProgress, onUploadCreated, signal);
+  }
+
+  /**
+   * Check the user's balance covers the file
+   * Lets the upload go ahead when the duration or balance is unknown - the
+   * backend checks too.
+   */
+  private async hasMinutes(auth: AuthCredentials, job: UploadJob): Promise<boolean> {
+    const duration = getBillableDuration(job.media);
+    if (!duration) return true;
+
+    try {
+      const response = await apiClient.getBalance(auth);
+      if (!response.success || !response.data) return true;
+      return response.data.balance.totalAvailable >= Math.ceil(duration / 60);
+    } catch (error) {
+      console.error("Error checking minutes:", error);
+      return true;
+    }
+  }
+
+  /**
+   * Refresh the status message (throttled unless forced)
+   */
+  private updateStatus(queue: UserQueue, force = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - queue.lastStatusUpdate < STATUS_UPDATE_INTERVAL_MS) {
+      return Promise.resolve();
+    }
+    queue.lastStatusUpdate = now;
+    queue.statusUpdate = queue.statusUpdate.then(() => this.renderStatus(queue));
+    return queue.statusUpdate;
+  }
+
+  private async renderStatus(queue: UserQueue): Promise<void> {
+    const t = getMessages(queue.locale);
+    const text = formatUploadStatus(t, queue.jobs);
+    if (text === queue.lastStatusText) return;
+
+    // A cancel button for every file still waiting or uploading
+    const keyboard = new InlineKeyboard();
+    let buttons = 0;
+    queue.jobs.forEach((job, index) => {
+      if (!isJobActive(job)) return;
+      keyboard.text(t.uploads.cancel(index + 1), "upload_cancel:" + job.media.id);
+      if (++buttons % 2 === 0) keyboard.row();
+    });
+    if (queue.jobs.some((job) => job.status === "too_large")) {
+      keyboard.row().webApp(t.common.openWebApp, config.webAppUrl);
+    }
+    if (queue.jobs.some((job) => job.status === "not_enough_minutes")) {
+      keyboard.row().text(t.balance.buyMinutes, "packages_menu");
+    }
+
+    try {
+      const api = this.getApi();
+      if (queue.statusMessageId) {
+        await api.editMessageText(queue.chatId, queue.statusMessageId, text, { reply_markup: keyboard });
+      } else {
+        const message = await api.sendMessage(queue.chatId, text, { reply_markup: keyboard });
+        queue.statusMessageId = message.message_id;
+      }
+      queue.lastStatusText = text;
+    } catch (error) {
+      console.error("Failed to update upload status:", error);
+    }
+  }
+}
+
+export const uploadQueue = new UploadQueue();
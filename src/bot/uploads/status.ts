@@ -0,0 +1,92 @@
+import type { TranscriptionLanguage } from "../../api/upload.js";
+import type { Messages } from "../../i18n/index.js";
+import type { PendingMedia } from "../context.js";
+import type { UploadJob } from "./queue.js";
+
+export function getSummarizationTypeName(t: Messages, summarizationType: "lecture" | "custdev"): string {
+  return summarizationType === "lecture" ? t.media.typeLecture : t.media.typeCustdev;
+}
+
+export function getTranscriptionLanguageName(t: Messages, language: TranscriptionLanguage): string {
+  const names: Record<TranscriptionLanguage, string> = {
+    uz: t.media.languageUz,
+    ru: t.media.languageRu,
+    en: t.media.languageEn,
+    auto: t.media.languageAuto,
+  };
+  return names[language];
+}
+
+/**
+ * Seconds that will be transcribed (and charged) - the trimmed part if any
+ */
+export function getBillableDuration(media: PendingMedia): number | undefined {
+  return media.trim ? media.trim.end - media.trim.start : media.duration;
+}
+
+export function isJobActive(job: UploadJob): boolean {
+  return job.status === "queued" || job.status === "downloading" || job.status === "uploading";
+}
+
+function formatEta(t: Messages, seconds: number): string {
+  return seconds < 60 ? t.uploads.etaSeconds(Math.max(1, seconds)) : t.uploads.etaMinutes(Math.ceil(seconds / 60));
+}
+
+function describeStatus(t: Messages, job: UploadJob): string {
+  switch (job.status) {
+    case "queued":
+      if (job.busyRetries) return t.uploads.serverBusy;
+      if (job.position !== undefined) return t.uploads.waiting(job.position);
+      return t.uploads.queued;
+    case "downloading":
+      return t.uploads.downloading;
+    case "uploading": {
+      if (job.progress === undefined) return t.uploads.uploading;
+      const { percent, bytesPerSecond, etaSeconds } = job.progress;
+      const filled = Math.floor(percent / 10);
+      let text = `${t.uploads.uploading} ${"▓".repeat(filled)}${"░".repeat(10 - filled)} ${percent}%`;
+      if (bytesPerSecond) {
+        text += "\n" + t.uploads.speed((bytesPerSecond / 1024 / 1024).toFixed(1));
+        if (etaSeconds !== undefined && percent < 100) {
+          text += " · " + formatEta(t, etaSeconds);
+        }
+      }
+      return text;
+    }
+    case "done":
+      return t.uploads.done;
+    case "rate_limited":
+      return t.uploads.rateLimited;
+    case "too_large":
+      return t.uploads.tooLarge;
+    case "not_enough_minutes":
+      return t.uploads.notEnoughMinutes;
+    case "cancelled":
+      return t.uploads.cancelled;
+    case "failed":
+      return t.uploads.failed;
+  }
+}
+
+/**
+ * Status message listing every file of the user's current batch
+ * Plain text - file names can contain Markdown characters.
+ */
+export function formatUploadStatus(t: Messages, jobs: readonly UploadJob[]): string {
+  const done = jobs.filter((job) => job.status === "done").length;
+  let text = t.uploads.title(done, jobs.length) + "\n";
+
+  jobs.forEach((job, index) => {
+    const name = job.media.fileName || t.notifications.defaultTitle;
+    text +=
+      `\n${index + 1}. ${name}\n` +
+      `${getSummarizationTypeName(t, job.summarizationType)} · ${getTranscriptionLanguageName(t, job.language)}\n` +
+      `${describeStatus(t, job)}\n`;
+  });
+
+  if (done > 0 && !jobs.some(isJobActive)) {
+    text += "\n" + t.uploads.allDone;
+  }
+
+  return text;
+}
@@ -0,0 +1,87 @@
+import path from "path";
+import type { LectureStatus, SummarizationType } from "../../api/index.js";
+import { config } from "../../config.js";
+import { FileStorage } from "../../storage/index.js";
+
+// Lectures are followed (and listed by /status) for this long after upload
+export const MAX_TRACK_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A lecture uploaded from Telegram, followed until the user has heard how it ended
+export interface TrackedLecture {
+  lectureId: string;
+  chatId: number; // Owner (session key)
+  title?: string;
+  summarizationType: SummarizationType;
+  status: LectureStatus; // Last status seen on the backend
+  uploadedAt: number;
+  checkedAt?: number; // Last time the backend was asked
+  finishedAt?: number; // When the bot first saw it completed or failed
+  notifiedAt?: number; // When the user was told (webhook, reconciler or /status), or couldn't be
+}
+
+export function isLectureFinished(status: LectureStatus): boolean {
+  return status === "completed" || status === "failed";
+}
+
+/**
+ * On-disk record of lectures uploaded from Telegram
+ * Written when an upload succeeds; /status and the reconciler read it to
+ * catch up on notifications the backend couldn't deliver.
+ */
+class LectureTracker {
+  private storage?: FileStorage<TrackedLecture>;
+
+  private getStorage(): FileStorage<TrackedLecture> {
+    this.storage ??= new FileStorage<TrackedLecture>(path.join(config.dataDir, "lectures"));
+    return this.storage;
+  }
+
+  private key(chatId: number, lectureId: string): string {
+    return chatId + "-" + lectureId;
+  }
+
+  async save(entry: TrackedLecture): Promise<void> {
+    await this.getStorage().write(this.key(entry.chatId, entry.lectureId), entry);
+  }
+
+  async get(chatId: number, lectureId: string): Promise<TrackedLecture | undefined> {
+    return this.getStorage().read(this.key(chatId, lectureId));
+  }
+
+  async remove(entry: TrackedLecture): Promise<void> {
+    await this.getStorage().delete(this.key(entry.chatId, entry.lectureId));
+  }
+
+  /**
+   * Record that the user was told how the lecture ended (no-op for untracked lectures)
+   */
+  async markNotified(chatId: number, lectureId: string, status: LectureStatus): Promise<void> {
+    const entry = await this.get(chatId, lectureId);
+    if (!entry) return;
+
+    const now = Date.now();
+    await this.save({ ...entry, status, finishedAt: entry.finishedAt ?? now, notifiedAt: now });
+  }
+
+  /**
+   * The user's lectures, newest first
+   */
+  async listForChat(chatId: number): Promise<TrackedLecture[]> {
+    const prefix = chatId + "-";
+    const entries: TrackedLecture[] = [];
+    for await (const key of this.getStorage().readAllKeys()) {
+      if (!key.startsWith(prefix)) continue;
+      const entry = await this.getStorage().read(key);
+      if (entry) entries.push(entry);
+    }
+    return entries.sort((a, b) => b.uploadedAt - a.uploadedAt);
+  }
+
+  async *entries(): AsyncIterable<TrackedLecture> {
+    for await (const [, entry] of this.getStorage().readAllEntries()) {
+      yield entry;
+    }
+  }
+}
+
+export const lectureTracker = new LectureTracker();
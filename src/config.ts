@@ -1,4 +1,5 @@
 import "dotenv/config";
+import path from "path";
 
 function getEnvVar(name: string, required = true): string {
   const value = process.env[name];
@@ -14,14 +15,43 @@ const localBotApiUrl = getEnvVar("LOCAL_BOT_API_URL", false) || "http://localhos
 // Path where Local Bot API files are stored (mounted volume on host)
 const localBotApiFilesPath = getEnvVar("LOCAL_BOT_API_FILES_PATH", false) || "";
 
+// How Telegram updates are received: "polling" (default) or "webhook"
+const updateMode = getEnvVar("UPDATE_MODE", false) === "webhook" ? "webhook" : "polling";
+const isWebhookMode = updateMode === "webhook";
+// Public base URL Telegram sends updates to (defaults to the Railway public domain)
+const railwayDomain = getEnvVar("RAILWAY_PUBLIC_DOMAIN", false);
+const telegramWebhookUrl =
+  getEnvVar("TELEGRAM_WEBHOOK_URL", false) || (railwayDomain ? "https://" + railwayDomain : "");
+if (isWebhookMode && !telegramWebhookUrl) {
+  throw new Error("Missing required environment variable: TELEGRAM_WEBHOOK_URL");
+}
+
+// Directory for data that must survive restarts (sessions etc.) - mount a volume here in production
+const dataDir = getEnvVar("DATA_DIR", false) || path.join(process.cwd(), "data");
+// Session storage backend: "file" (persistent, default) or "memory" (lost on restart)
+const sessionStorage = getEnvVar("SESSION_STORAGE", false) === "memory" ? "memory" : "file";
+
+// Secrets backend webhooks are signed with. Several (comma-separated) are
+// accepted at once so a secret can be rotated without dropping requests.
+const nodeEnv = getEnvVar("NODE_ENV", false) || "development";
+const webhookSecrets = getEnvVar("WEBHOOK_SECRET", false)
+  .split(",")
+  .map((secret) => secret.trim())
+  .filter(Boolean);
+if (nodeEnv === "production" && webhookSecrets.length === 0) {
+  throw new Error("Missing required environment variable: WEBHOOK_SECRET (webhooks can't be verified without it)");
+}
+
 export const config = {
   botToken: getEnvVar("BOT_TOKEN"),
   apiBaseUrl: getEnvVar("API_BASE_URL", false) || "http://localhost:3000",
   webAppUrl: getEnvVar("WEB_APP_URL", false) || "https://uznotes.app",
   webhookPort: parseInt(getEnvVar("PORT", false) || getEnvVar("WEBHOOK_PORT", false) || "3001", 10),
-  webhookSecret: getEnvVar("WEBHOOK_SECRET", false) || "",
-  nodeEnv: getEnvVar("NODE_ENV", false) || "development",
-  isDev: (getEnvVar("NODE_ENV", false) || "development") === "development",
+  webhookSecrets,
+  // Signed webhooks older (or further in the future) than this are rejected as replays
+  webhookMaxAgeSeconds: parseInt(getEnvVar("WEBHOOK_MAX_AGE_SECONDS", false) || "300", 10) || 300,
+  nodeEnv,
+  isDev: nodeEnv === "development",
 
   // Local Bot API configuration (for files > 20MB, up to 2GB)
   useLocalBotApi,
@@ -29,4 +59,42 @@ export const config = {
   localBotApiFilesPath, // Host path where Docker volume is mounted (e.g., C:/telegram-bot-api-data)
   // File size limit: 20MB for cloud API, 2GB for local API
   maxFileSize: useLocalBotApi ? 2 * 1024 * 1024 * 1024 : 20 * 1024 * 1024,
+
+  // Telegram update delivery (long polling or webhook)
+  updateMode,
+  telegramWebhookUrl,
+  telegramWebhookPath: getEnvVar("TELEGRAM_WEBHOOK_PATH", false) || "/telegram/webhook",
+  // Sent by Telegram in X-Telegram-Bot-Api-Secret-Token (1-256 chars: A-Z, a-z, 0-9, _ and -)
+  telegramWebhookSecret: getEnvVar("TELEGRAM_WEBHOOK_SECRET", isWebhookMode),
+  // Remove the webhook on shutdown - disable when deploys overlap, so the old
+  // instance stopping doesn't remove the webhook the new one registered.
+  // Several replicas are not supported (see docs/TELEGRAM_UPDATES.md).
+  telegramWebhookDeleteOnShutdown: getEnvVar("TELEGRAM_WEBHOOK_DELETE_ON_SHUTDOWN", false) !== "false",
+
+  // Persistent storage configuration
+  dataDir,
+  sessionStorage,
+
+  // Upload worker pool: uploads running at once across all users, and the
+  // free disk space below which new uploads wait
+  uploadConcurrency: Math.max(1, parseInt(getEnvVar("UPLOAD_CONCURRENCY", false) || "2", 10) || 2),
+  uploadMinFreeDiskBytes: parseInt(getEnvVar("UPLOAD_MIN_FREE_DISK_MB", false) || "1024", 10) * 1024 * 1024,
+  // Parts a large TUS upload is split into and sent in parallel (1 = sequential).
+  // Only used when the backend supports the concatenation extension.
+  // Every part holds a chunk of up to 32MB in memory, so uploads can use up to
+  // 32MB x tusParallelUploads x uploadConcurrency (256MB at 4 parts x 2 uploads).
+  tusParallelUploads: Math.max(1, parseInt(getEnvVar("TUS_PARALLEL_UPLOADS", false) || "1", 10) || 1),
+  // How often lectures uploaded from Telegram are checked for finished
+  // processing whose notification never arrived (0 = never)
+  lectureReconcileIntervalMs:
+    (parseInt(getEnvVar("LECTURE_RECONCILE_INTERVAL_MINUTES", false) || "5", 10) || 0) * 60 * 1000,
+
+  // Media tools (used to read the duration of files Telegram sends without one,
+  // and to upload only the audio track of videos)
+  ffprobePath: getEnvVar("FFPROBE_PATH", false) || "ffprobe",
+  ffmpegPath: getEnvVar("FFMPEG_PATH", false) || "ffmpeg",
+  extractAudio: getEnvVar("EXTRACT_AUDIO", false) !== "false",
+
+  // TrueType font for PDF exports - the built-in PDF fonts have no Cyrillic
+  pdfFontPath: getEnvVar("PDF_FONT_PATH", false) || "/usr/share/fonts/dejavu/DejaVuSans.ttf",
 } as const;
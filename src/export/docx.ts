@@ -0,0 +1,22 @@
+import { Document, HeadingLevel, Packer, Paragraph } from "docx";
+import type { ExportContent } from "./formats.js";
+
+export async function buildDocx(content: ExportContent): Promise<Buffer> {
+  const children = [new Paragraph({ text: content.title, heading: HeadingLevel.TITLE })];
+  if (content.subtitle) {
+    children.push(new Paragraph({ text: content.subtitle }));
+  }
+
+  for (const section of content.sections) {
+    children.push(new Paragraph({ text: section.heading, heading: HeadingLevel.HEADING_1 }));
+    for (const paragraph of section.paragraphs) {
+      children.push(new Paragraph({ text: paragraph, spacing: { after: 120 } }));
+    }
+  }
+
+  const document = new Document({
+    title: content.title,
+    sections: [{ children }],
+  });
+  return Packer.toBuffer(document);
+}
@@ -0,0 +1,76 @@
+import type { TranscriptSegment } from "../api/index.js";
+
+export type ExportFormat = "txt" | "srt" | "vtt" | "docx" | "pdf";
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["txt", "srt", "vtt", "docx", "pdf"];
+
+export interface ExportSection {
+  heading: string;
+  paragraphs: string[];
+}
+
+/**
+ * Everything an export is built from
+ * Documents (TXT, DOCX, PDF) use the sections, subtitles (SRT, VTT) the segments.
+ */
+export interface ExportContent {
+  title: string;
+  subtitle?: string;
+  sections: ExportSection[];
+  segments: TranscriptSegment[];
+}
+
+export function isExportFormat(value: string | undefined): value is ExportFormat {
+  return !!value && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function isSubtitleFormat(format: ExportFormat): boolean {
+  return format === "srt" || format === "vtt";
+}
+
+export function buildTxt(content: ExportContent): string {
+  const lines = [content.title];
+  if (content.subtitle) lines.push(content.subtitle);
+
+  for (const section of content.sections) {
+    lines.push("", section.heading.toUpperCase(), "", section.paragraphs.join("\n\n"));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Cue time as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (VTT)
+ */
+function formatCueTime(seconds: number, decimalSeparator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+  return (
+    `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:` +
+    `${pad(totalSeconds % 60)}${decimalSeparator}${pad(ms, 3)}`
+  );
+}
+
+// A blank line inside a cue would end it early, so those are collapsed
+function getCues(segments: readonly TranscriptSegment[]): TranscriptSegment[] {
+  return segments
+    .map((segment) => ({ ...segment, text: segment.text.trim().replace(/\n{2,}/g, "\n") }))
+    .filter((segment) => segment.text && segment.end > segment.start);
+}
+
+export function buildSrt(segments: readonly TranscriptSegment[]): string {
+  return getCues(segments)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+export function buildVtt(segments: readonly TranscriptSegment[]): string {
+  const cues = getCues(segments).map(
+    (cue) => `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n${cue.text}\n`
+  );
+  return ["WEBVTT\n", ...cues].join("\n");
+}
@@ -0,0 +1,51 @@
+import type { ExportContent, ExportFormat } from "./formats.js";
+import { buildSrt, buildTxt, buildVtt } from "./formats.js";
+import { buildDocx } from "./docx.js";
+import { buildPdf, isPdfAvailable } from "./pdf.js";
+
+export { EXPORT_FORMATS, isExportFormat, isSubtitleFormat } from "./formats.js";
+export type { ExportContent, ExportFormat, ExportSection } from "./formats.js";
+export { isPdfAvailable } from "./pdf.js";
+
+export interface ExportFile {
+  data: Buffer;
+  fileName: string;
+}
+
+// Characters that aren't allowed in file names on common systems
+const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|\x00-\x1f]+/g;
+const MAX_FILENAME_LENGTH = 100;
+
+export function isExportFormatAvailable(format: ExportFormat): Promise<boolean> {
+  return format === "pdf" ? isPdfAvailable() : Promise.resolve(true);
+}
+
+/**
+ * Build the export file in the given format
+ * fileName is made from the title, with characters file systems reject removed.
+ */
+export async function buildExport(content: ExportContent, format: ExportFormat): Promise<ExportFile> {
+  let data: Buffer;
+  switch (format) {
+    case "txt":
+      data = Buffer.from(buildTxt(content), "utf8");
+      break;
+    case "srt":
+      data = Buffer.from(buildSrt(content.segments), "utf8");
+      break;
+    case "vtt":
+      data = Buffer.from(buildVtt(content.segments), "utf8");
+      break;
+    case "docx":
+      data = await buildDocx(content);
+      break;
+    case "pdf":
+      data = await buildPdf(content);
+      break;
+  }
+
+  const baseName =
+    content.title.replace(UNSAFE_FILENAME_CHARS, " ").replace(/\s+/g, " ").trim().slice(0, MAX_FILENAME_LENGTH) ||
+    "transcript";
+  return { data, fileName: `${baseName}.${format}` };
+}
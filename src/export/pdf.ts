@@ -0,0 +1,48 @@
+import { access } from "node:fs/promises";
+import PDFDocument from "pdfkit";
+import { config } from "../config.js";
+import type { ExportContent } from "./formats.js";
+
+let fontCheck: Promise<boolean> | undefined;
+
+/**
+ * Whether PDF exports can be made - checked once per process
+ */
+export function isPdfAvailable(): Promise<boolean> {
+  fontCheck ??= access(config.pdfFontPath).then(
+    () => true,
+    () => {
+      console.warn("PDF font not found: " + config.pdfFontPath);
+      return false;
+    }
+  );
+  return fontCheck;
+}
+
+export function buildPdf(content: ExportContent): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const document = new PDFDocument({ margin: 50, info: { Title: content.title } });
+    const chunks: Buffer[] = [];
+    document.on("data", (chunk: Buffer) => chunks.push(chunk));
+    document.on("end", () => resolve(Buffer.concat(chunks)));
+    document.on("error", reject);
+
+    document.registerFont("body", config.pdfFontPath);
+    document.font("body");
+
+    document.fontSize(20).text(content.title);
+    if (content.subtitle) {
+      document.moveDown(0.3).fontSize(10).fillColor("#666666").text(content.subtitle).fillColor("black");
+    }
+
+    for (const section of content.sections) {
+      document.moveDown(1.2).fontSize(15).text(section.heading);
+      document.moveDown(0.5).fontSize(11);
+      for (const paragraph of section.paragraphs) {
+        document.text(paragraph, { paragraphGap: 6 });
+      }
+    }
+
+    document.end();
+  });
+}
@@ -0,0 +1,53 @@
+import { uz } from "./locales/uz.js";
+import { ru } from "./locales/ru.js";
+import { en } from "./locales/en.js";
+import type { Messages } from "./locales/uz.js";
+
+export type { Messages };
+
+export const LOCALES = ["uz", "ru", "en"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "uz";
+
+const messages: Record<Locale, Messages> = { uz, ru, en };
+
+// Telegram language codes whose speakers are best served in Russian
+const RUSSIAN_SPEAKING_CODES = ["ru", "uk", "be", "kk", "ky", "tg"];
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return !!value && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a Telegram language code (e.g. "ru", "en-US") to a supported locale
+ */
+export function localeFromLanguageCode(languageCode: string | null | undefined): Locale {
+  const code = languageCode?.toLowerCase().split("-")[0];
+  if (!code) return DEFAULT_LOCALE;
+  if (isLocale(code)) return code;
+  if (RUSSIAN_SPEAKING_CODES.includes(code)) return "ru";
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Pick the locale for a user: explicit override first, then their Telegram language
+ */
+export function resolveLocale(
+  override: string | null | undefined,
+  languageCode: string | null | undefined
+): Locale {
+  if (isLocale(override)) return override;
+  return localeFromLanguageCode(languageCode);
+}
+
+export function getMessages(locale: Locale): Messages {
+  return messages[locale];
+}
+
+/**
+ * Collect one message across all locales (e.g. to match reply keyboard buttons)
+ */
+export function inAllLocales(pick: (m: Messages) => string): string[] {
+  return LOCALES.map((locale) => pick(messages[locale]));
+}
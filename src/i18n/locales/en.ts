@@ -0,0 +1,433 @@
+import type { Messages } from "./uz.js";
+
+export const en: Messages = {
+  languageName: "🇬🇧 English",
+  dateLocale: "en-US",
+
+  common: {
+    startFirst: "Please send the /start command first",
+    sessionInvalid: "Your session is no longer valid. Please send the /start command.",
+    error: "Something went wrong",
+    errorTryAgain: "❌ Something went wrong. Please try again.",
+    errorWithMessage: (message: string) => `❌ ${message}. Please try again.`,
+    openWebApp: "🌐 Open web app",
+    webApp: "🌐 Web app",
+    back: "◀️ Back",
+    minutes: (count: number) => `${count} min`,
+    hours: (count: number) => (count === 1 ? "1 hour" : `${count} hours`),
+  },
+
+  buttons: {
+    transcribe: "🎬 Transcribe",
+    balance: "📊 Balance",
+    plans: "📦 Plans",
+  },
+
+  menu: {
+    transcribe: "🎬 Transcribe a recording",
+    balance: "📊 Balance",
+    plans: "📦 Plans",
+    info: "ℹ️ Guide",
+    settings: "⚙️ Settings",
+    home: "🏠 Home",
+    welcome: "Welcome to the main menu! Choose an action:",
+  },
+
+  start: {
+    slide1Caption:
+      "🎯 *2-hour meeting → summary in 2 minutes*\n\n" +
+      "✅ Transcription in Uzbek, Russian and English\n" +
+      "✅ AI summary and key points\n" +
+      "✅ CustDev interview analysis",
+    slide2Caption: "📤 *Just send a video or audio — we'll do the rest!*",
+    viewLecture: "View recording",
+    viewLecturePrompt: "Tap the button to view the recording:",
+  },
+
+  commands: {
+    transcribeGuide:
+      "🎬 *Transcribe video/audio*\n\n" +
+      "1️⃣ Send me a video or audio file\n" +
+      "2️⃣ Choose the content type (Lecture or CustDev)\n" +
+      "3️⃣ AI prepares the transcript and summary\n\n" +
+      "📎 Supported formats: MP4, MP3, WAV, M4A, OGG",
+    help:
+      "How to use Majlees:\n\n" +
+      "1. Tap the menu button or \"Open app\"\n" +
+      "2. Upload your audio/video recording\n" +
+      "3. Get the transcript, summary and key points\n\n" +
+      "Supported formats: MP3, WAV, M4A, MP4 and more.",
+    openApp: "Open Majlees",
+    openAppPrompt: "Tap the button below to open the app:",
+  },
+
+  media: {
+    unsupported: "This media file could not be processed.",
+    unsupportedDocument:
+      "❌ *Unsupported file format*\n\n" +
+      "Send a video or audio recording:\n" +
+      "📹 Video: MP4, MOV, AVI, MKV, WEBM\n" +
+      "🎵 Audio: MP3, WAV, M4A, OGG, FLAC",
+    fileTooLarge: (sizeMB: string, maxSizeMB: number) =>
+      `📁 *File is too large*\n\n` +
+      `📊 File size: ${sizeMB} MB\n` +
+      `⚠️ Files up to ${maxSizeMB} MB can be uploaded through Telegram.\n\n` +
+      `Use the web app to upload larger files:`,
+    fileReceived: (sizeMB: string, durationMin: string) =>
+      `📁 *File received*\n\n` +
+      `📊 Size: ${sizeMB} MB\n` +
+      `⏱ Duration: ~${durationMin} min\n\n` +
+      `Choose the content type:`,
+    trim: "✂️ Trim",
+    trimPrompt: (length: string) =>
+      `✂️ *Which part should we transcribe?*\n\n` +
+      `Send the start and end time, for example: \`5:00-45:30\`\n\n` +
+      `Recording length: ${length}`,
+    trimInvalid: (length: string) =>
+      `⚠️ Couldn't read that. Send the start and end as \`5:00-45:30\` ` +
+      `(recording length: ${length}).`,
+    trimmed: (start: string, end: string, durationMin: string) =>
+      `✂️ *Segment:* ${start} - ${end}\n` +
+      `⏱ Duration: ~${durationMin} min\n\n` +
+      `Choose the content type:`,
+    typeLecture: "📚 Lecture",
+    typeCustdev: "🎯 CustDev",
+    chooseLanguage: "What language is the recording in?",
+    languageUz: "🇺🇿 Uzbek",
+    languageRu: "🇷🇺 Russian",
+    languageEn: "🇬🇧 English",
+    languageAuto: "🌐 Auto-detect",
+    cancel: "❌ Cancel",
+    cancelled: "Cancelled",
+    queueFull: (max: number) =>
+      `⏳ *Upload queue is full*\n\n` +
+      `Up to ${max} files can wait at a time.\n` +
+      `Please wait for the current uploads to finish.`,
+    queued: (typeName: string, languageName: string) =>
+      `${typeName} · ${languageName}\n\n✅ Added to the upload queue`,
+    cancelledMessage: "❌ Cancelled. You can send a new file.",
+    notFound: "⚠️ Media not found. Please send a video or audio file first.",
+    startFirst: "⚠️ Please send the /start command first",
+  },
+
+  uploads: {
+    title: (done: number, total: number) => `📤 Uploads: ${done}/${total}`,
+    queued: "⏳ In queue",
+    waiting: (position: number) => `⏳ In line: #${position}`,
+    serverBusy: "⏳ Server is busy - will retry shortly",
+    downloading: "⬇️ Downloading...",
+    uploading: "📤 Uploading...",
+    speed: (megabytesPerSecond: string) => `${megabytesPerSecond} MB/s`,
+    etaSeconds: (seconds: number) => `~${seconds}s left`,
+    etaMinutes: (minutes: number) => `~${minutes} min left`,
+    done: "✅ Uploaded",
+    failed: "❌ Upload failed - please send the file again",
+    rateLimited: "⏳ Hourly limit reached (10 files) - try again later",
+    tooLarge: "📁 Too large for Telegram - use the web app",
+    notEnoughMinutes: "💳 Not enough minutes for this recording - see /balance",
+    cancelled: "🚫 Cancelled",
+    cancel: (position: number) => `❌ Cancel #${position}`,
+    cancelTooLate: "This file has already finished uploading",
+    allDone:
+      "We'll let you know when the transcripts and summaries are ready.\n" +
+      "This usually takes 5-10 minutes.",
+    resumed: (count: number) =>
+      count === 1
+        ? "🔄 The bot restarted, but your upload carried on from where it stopped."
+        : `🔄 The bot restarted, but your ${count} uploads carried on from where they stopped.`,
+  },
+
+  lectures: {
+    title: (page: number, totalPages: number) => `📚 Your recordings (${page}/${totalPages})`,
+    empty: "📭 No recordings yet.\n\nSend a video or audio file and we'll transcribe it.",
+    emptyFiltered: "📭 No recordings of this type.",
+    fetchError: "❌ Failed to load your recordings. Please try again later.",
+    notFound: "Recording not found",
+    filterAll: "All",
+    status: {
+      pending: "⏳ Queued",
+      processing: "⚙️ Processing",
+      completed: "✅ Ready",
+      failed: "❌ Failed",
+    },
+    details: (params: { title: string; typeName: string; date: string; duration: string; status: string }) =>
+      `📄 ${params.title}\n\n` +
+      `${params.typeName}\n` +
+      `📅 ${params.date}\n` +
+      `⏱ ${params.duration}\n` +
+      `${params.status}`,
+    unknownDuration: "Duration unknown",
+    openInApp: "🌐 Open in the web app",
+    sections: {
+      summary: "📝 Summary",
+      keyPoints: "📌 Key points",
+      transcript: "📜 Transcript",
+    },
+    notReady: "This recording isn't ready yet",
+    sectionEmpty: "This section is empty",
+    contentError: "❌ Failed to load the recording. Please try again later.",
+    continueInApp: "✂️ The rest is in the web app.",
+  },
+
+  export: {
+    button: "📤 Export",
+    usage:
+      "📤 To get a recording as a file, open it in /lectures and tap \"Export\".\n\n" +
+      "Or send the recording ID: /export <id>",
+    chooseFormat: (title: string) => `📤 ${title}\n\nChoose a format:`,
+    preparing: "Preparing the file...",
+    noTimestamps: "This recording has no timestamps, so subtitles can't be made",
+    failed: "❌ Failed to create the file. Please try again later.",
+    headings: {
+      summary: "Summary",
+      keyPoints: "Key points",
+      transcript: "Transcript",
+    },
+  },
+
+  inline: {
+    openBot: "🤖 Open the bot",
+    noResults: "Nothing found",
+  },
+
+  ask: {
+    button: "💬 Ask a question",
+    exit: "🚪 Exit",
+    usage:
+      "💬 To ask about a recording, open it in /lectures and tap \"Ask a question\".\n\n" +
+      "Or send the recording ID: /ask <id>",
+    started: (title: string) =>
+      `💬 Ask anything about "${title}".\n\n` +
+      `Send your questions as messages. Tap "Exit" or send /exit when you're done.`,
+    active: (title: string) => `💬 You're asking about "${title}". Send a question, or exit.`,
+    exited: "👋 You've left question mode.",
+    expired: (title: string) =>
+      `⌛ Question mode for "${title}" ended after inactivity. Tap "Ask a question" again to continue.`,
+    tooLong: (max: number) => `✂️ That question is too long - keep it under ${max} characters.`,
+    failed: "❌ Couldn't get an answer. Please try again.",
+  },
+
+  status: {
+    title: "📋 Your latest uploads",
+    empty: "📭 Nothing was uploaded from Telegram in the last 7 days.\n\nAll your recordings: /lectures",
+    footer: "All your recordings: /lectures",
+  },
+
+  balance: {
+    fetchError: "❌ Failed to load your balance.",
+    summary: (params) =>
+      `📊 *Your balance*\n\n` +
+      `📦 Plan: *${params.planName}*\n\n` +
+      `*Plan minutes:*\n` +
+      `${params.progressBar}\n` +
+      `${params.planRemaining}/${params.planTotal} min\n\n` +
+      `*Bonus minutes:* ${params.bonus} min\n\n` +
+      `*Total available:* ${params.total} min\n\n` +
+      `📅 Next renewal in ${params.daysRemaining} days\n` +
+      `(${params.renewalDate})`,
+    plans: "📦 Plans",
+    buyMinutes: "➕ Buy minutes",
+    notEnoughMinutes: (estimated: number, available: number) =>
+      `⚠️ *Not enough minutes*\n\n` +
+      `This recording needs about *${estimated} min*.\n` +
+      `You only have *${available} min* available.\n\n` +
+      `Please buy extra minutes or upgrade your plan.`,
+  },
+
+  pricing: {
+    title:
+      "📊 *UzNotes Plans*\n\n" +
+      "Every user gets *30 minutes* free each month\\!\n\n",
+    fetchError: "Failed to load plans. Please try again.",
+    extraMinutes: "➕ Extra minutes",
+    planNotFound: "Plan not found",
+    planFeatures: {
+      starter: [
+        "✅ 300 minutes (5 hours) of video",
+        "✅ Unlimited transcription",
+        "✅ AI summaries",
+        "✅ Telegram + Web",
+      ],
+      pro: [
+        "✅ 900 minutes (15 hours) of video",
+        "✅ Unlimited transcription",
+        "✅ AI summaries",
+        "✅ CustDev analysis",
+        "✅ Telegram + Web",
+        "✅ Folders and tags",
+      ],
+      business: [
+        "✅ 2400 minutes (40 hours) of video",
+        "✅ Unlimited transcription",
+        "✅ AI summaries",
+        "✅ CustDev analysis",
+        "✅ Mind map",
+        "✅ Telegram + Web",
+        "✅ Folders and tags",
+        "✅ Priority support",
+      ],
+    },
+    planDetails: (name: string, price: string, minutes: number, features: string[]) =>
+      `📦 *${name} plan*\n\n` +
+      `💰 Price: *${price}/month*\n` +
+      `⏱ Minutes: *${minutes} min*\n\n` +
+      `*Features:*\n${features.join("\n")}\n\n` +
+      `Confirm the purchase?`,
+    buy: "✅ Buy",
+    packagesCaption:
+      `➕ *Extra minutes*\n\n` +
+      `If you run out of minutes or need more, ` +
+      `you can buy extra packages.\n\n` +
+      `These minutes don't roll over to the next month and are added to your current balance.`,
+    packageNotFound: "Package not found",
+    packageDetails: (name: string, price: string, minutes: number) =>
+      `📦 *${name} package*\n\n` +
+      `💰 Price: *${price}*\n` +
+      `⏱ Minutes: *${minutes} min*\n\n` +
+      `These minutes will be added to your current balance.\n\n` +
+      `Confirm the purchase?`,
+    planPaymentRequired: (planName: string, price: string) =>
+      `💳 *Payment required*\n\n` +
+      `📦 Plan: *${planName}*\n` +
+      `💰 Price: *${price} UZS*\n\n` +
+      `Tap the button below to pay.\n` +
+      `The plan is activated automatically once the payment is confirmed.`,
+    packagePaymentRequired: (packageName: string, price: string) =>
+      `💳 *Payment required*\n\n` +
+      `📦 Package: *${packageName}*\n` +
+      `💰 Price: *${price} UZS*\n\n` +
+      `Tap the button below to pay.\n` +
+      `The minutes are added to your balance once the payment is confirmed.`,
+    goToPayment: "💳 Go to payment",
+    planActivated: (planName: string) =>
+      `✅ *Plan activated!*\n\n` +
+      `You can now use the *${planName}* plan.\n\n` +
+      `/balance - View your minutes balance`,
+    packagePurchased:
+      `✅ *Package purchased!*\n\n` +
+      `The minutes were added to your balance.\n\n` +
+      `/balance - View your new balance`,
+    viewBalance: "📊 View balance",
+  },
+
+  info: {
+    guide:
+      `📚 *Majlees - User guide*\n\n` +
+      `*How to use the bot:*\n\n` +
+      `1️⃣ *Send a video/audio*\n` +
+      `Send me a video or audio file. I'll process and transcribe it automatically.\n\n` +
+      `2️⃣ *Choose the content type*\n` +
+      `After sending, choose the content type:\n` +
+      `   • Lecture - for classes and lectures\n` +
+      `   • CustDev - for interviews and conversations\n\n` +
+      `💡 A caption becomes the title. The tags #lecture, #custdev, #uz, #ru, #en in the caption ` +
+      `skip the questions.\n\n` +
+      `3️⃣ *Get the results*\n` +
+      `AI prepares the transcript, summary and key points.\n\n` +
+      `*Supported formats:*\n` +
+      `📹 Video: MP4, MOV, AVI, MKV, WEBM\n` +
+      `🎵 Audio: MP3, WAV, M4A, OGG, FLAC\n\n` +
+      `*Available commands:*\n` +
+      `/start - Restart the bot\n` +
+      `/info - User guide\n` +
+      `/settings - Account settings\n` +
+      `/lectures - Your recordings\n` +
+      `/export - Download a recording as a file\n` +
+      `/ask - Ask questions about a recording\n` +
+      `/status - Processing status of your uploads\n` +
+      `/language - Change language\n` +
+      `/balance - View minutes balance\n` +
+      `/pricing - View plans\n` +
+      `/help - Help\n` +
+      `/app - Open the web app\n\n` +
+      `*Any questions?*\n` +
+      `Contact: @majlees\\_ai`,
+  },
+
+  settings: {
+    fetchError: "❌ Failed to load settings.",
+    title: `⚙️ *Account settings*\n\n`,
+    linkedAccounts: `*Linked accounts:*\n\n`,
+    googleLinked: (email: string | null | undefined) => `✅ *Google:* ${email || "Linked"}\n`,
+    googleNotLinked: `❌ *Google:* Not linked\n`,
+    telegramLinked: (username: string | null) => `✅ *Telegram:* @${username ?? "Linked"}\n`,
+    telegramNotLinked: `❌ *Telegram:* Not linked\n`,
+    linkingExplained:
+      `\n*What is account linking?*\n` +
+      `Linking accounts lets you access the same data through both Google and Telegram.\n\n`,
+    linkGoogle: "🔗 Link Google",
+    unlinkGoogle: "🔓 Unlink Google",
+    unlinkNote: `💡 *Note:* At least one sign-in method must stay linked.\n`,
+    linkGoogleGuide:
+      `🔗 *Link your Google account*\n\n` +
+      `To link your Google account:\n\n` +
+      `1️⃣ Open the web app\n` +
+      `2️⃣ Go to Settings\n` +
+      `3️⃣ Tap "Link accounts"\n` +
+      `4️⃣ Sign in with your Google account\n\n` +
+      `Once linked, you can sign in with either Google or Telegram.\n\n` +
+      `All your data will be available in both accounts.`,
+    unlinkGoogleGuide:
+      `⚠️ *Unlink your Google account*\n\n` +
+      `Use the web app to unlink your Google account:\n\n` +
+      `1️⃣ Open the web app\n` +
+      `2️⃣ Go to Settings\n` +
+      `3️⃣ Tap "Unlink" next to Google\n\n` +
+      `⚠️ *Note:* After unlinking Google you can only sign in with Telegram.`,
+    backToSettings: "⬅️ Back to settings",
+    language: "🌐 Til / Язык / Language",
+    chooseLanguage: "🌐 Tilni tanlang / Выберите язык / Choose your language:",
+    languageChanged: "✅ Language changed: English",
+  },
+
+  accountLinking: {
+    error: "Something went wrong. Please try again.",
+    processing: "Linking your accounts...",
+    failed: "Failed to link the accounts.",
+    invalidToken:
+      "The link has expired or is invalid.\n\n" +
+      "Please get a new link from the web app.",
+    alreadyLinked:
+      "This Telegram account is already linked.\n\n" +
+      "To link a different Google account, remove the current link first.",
+    invalidLinkType: "Invalid link type.",
+    merged:
+      "🎉 *Accounts merged successfully!*\n\n" +
+      "Your Telegram and Google accounts have been merged. " +
+      "All your data is now in one account.\n\n" +
+      "You can sign in with either method.",
+    linked:
+      "✅ *Telegram account linked!*\n\n" +
+      "You can now sign in with Google or Telegram.\n\n" +
+      "All your data will be available in both accounts.",
+    failedLater: "Failed to link the accounts. Please try again later.",
+  },
+
+  notifications: {
+    summaryTypeLecture: "Meeting Summary",
+    summaryTypeCustdev: "CustDev Analysis",
+    defaultTitle: "Your recording",
+    view: (typeName: string) => "View " + typeName,
+    lectureReady: (title: string, typeName: string) =>
+      `✅ ${title} is ready! Click below to view your ${typeName.toLowerCase()}.`,
+    lectureFailed: (title: string, error: string) =>
+      `❌ Processing failed: ${title} - ${error}`,
+    unknownError: "Unknown error",
+    viewBalance: "View balance",
+    paymentSuccess: (itemName: string, isPlan: boolean, amount: string) =>
+      `✅ *Payment successful!*\n\n` +
+      `📦 ${itemName} ${isPlan ? "plan" : "package"} activated\n` +
+      `💰 Amount: ${amount} UZS\n\n` +
+      `Thank you for using our service!`,
+    paymentCancelled: (itemName: string, isPlan: boolean, amount: string) =>
+      `❌ *Payment cancelled*\n\n` +
+      `📦 ${itemName} ${isPlan ? "plan" : "package"}\n` +
+      `💰 Amount: ${amount} UZS\n\n` +
+      `If you have any questions, send the /help command.`,
+    paymentFailed: (itemName: string, isPlan: boolean, amount: string) =>
+      `⚠️ *Payment failed*\n\n` +
+      `📦 ${itemName} ${isPlan ? "plan" : "package"}\n` +
+      `💰 Amount: ${amount} UZS\n\n` +
+      `Please try again or send the /pricing command.`,
+  },
+};
@@ -0,0 +1,433 @@
+import type { Messages } from "./uz.js";
+
+export const ru: Messages = {
+  languageName: "🇷🇺 Русский",
+  dateLocale: "ru-RU",
+
+  common: {
+    startFirst: "Пожалуйста, сначала отправьте команду /start",
+    sessionInvalid: "Ваша сессия недействительна. Пожалуйста, отправьте команду /start.",
+    error: "Произошла ошибка",
+    errorTryAgain: "❌ Произошла ошибка. Пожалуйста, попробуйте ещё раз.",
+    errorWithMessage: (message: string) => `❌ ${message}. Пожалуйста, попробуйте ещё раз.`,
+    openWebApp: "🌐 Открыть веб-приложение",
+    webApp: "🌐 Веб-приложение",
+    back: "◀️ Назад",
+    minutes: (count: number) => `${count} мин.`,
+    hours: (count: number) => `${count} ч.`,
+  },
+
+  buttons: {
+    transcribe: "🎬 Транскрипция",
+    balance: "📊 Баланс",
+    plans: "📦 Тарифы",
+  },
+
+  menu: {
+    transcribe: "🎬 Сделать транскрипцию",
+    balance: "📊 Баланс",
+    plans: "📦 Тарифы",
+    info: "ℹ️ Инструкция",
+    settings: "⚙️ Настройки",
+    home: "🏠 Главная",
+    welcome: "Добро пожаловать в главное меню! Выберите действие:",
+  },
+
+  start: {
+    slide1Caption:
+      "🎯 *2-часовая встреча → итоги за 2 минуты*\n\n" +
+      "✅ Транскрипция на узбекском, русском и английском\n" +
+      "✅ AI-резюме и ключевые мысли\n" +
+      "✅ Анализ CustDev-интервью",
+    slide2Caption: "📤 *Просто отправьте видео или аудио — остальное мы сделаем сами!*",
+    viewLecture: "Открыть запись",
+    viewLecturePrompt: "Нажмите кнопку, чтобы открыть запись:",
+  },
+
+  commands: {
+    transcribeGuide:
+      "🎬 *Транскрипция видео/аудио*\n\n" +
+      "1️⃣ Отправьте мне видео или аудио файл\n" +
+      "2️⃣ Выберите тип контента (Лекция или CustDev)\n" +
+      "3️⃣ AI подготовит транскрипцию и резюме\n\n" +
+      "📎 Поддерживаемые форматы: MP4, MP3, WAV, M4A, OGG",
+    help:
+      "Как пользоваться Majlees:\n\n" +
+      "1. Нажмите кнопку меню или «Открыть приложение»\n" +
+      "2. Загрузите аудио/видео запись\n" +
+      "3. Получите транскрипцию, резюме и ключевые мысли\n\n" +
+      "Поддерживаемые форматы: MP3, WAV, M4A, MP4 и другие.",
+    openApp: "Открыть Majlees",
+    openAppPrompt: "Нажмите кнопку ниже, чтобы открыть приложение:",
+  },
+
+  media: {
+    unsupported: "Не удалось обработать этот медиафайл.",
+    unsupportedDocument:
+      "❌ *Неподдерживаемый формат файла*\n\n" +
+      "Отправьте видео или аудиозапись:\n" +
+      "📹 Видео: MP4, MOV, AVI, MKV, WEBM\n" +
+      "🎵 Аудио: MP3, WAV, M4A, OGG, FLAC",
+    fileTooLarge: (sizeMB: string, maxSizeMB: number) =>
+      `📁 *Файл слишком большой*\n\n` +
+      `📊 Размер файла: ${sizeMB} МБ\n` +
+      `⚠️ Через Telegram можно загрузить файл размером до ${maxSizeMB} МБ.\n\n` +
+      `Для загрузки больших файлов воспользуйтесь веб-приложением:`,
+    fileReceived: (sizeMB: string, durationMin: string) =>
+      `📁 *Файл получен*\n\n` +
+      `📊 Размер: ${sizeMB} МБ\n` +
+      `⏱ Длительность: ~${durationMin} мин.\n\n` +
+      `Выберите тип контента:`,
+    trim: "✂️ Выбрать фрагмент",
+    trimPrompt: (length: string) =>
+      `✂️ *Какой фрагмент расшифровать?*\n\n` +
+      `Отправьте время начала и конца, например: \`5:00-45:30\`\n\n` +
+      `Длина записи: ${length}`,
+    trimInvalid: (length: string) =>
+      `⚠️ Не удалось разобрать время. Отправьте начало и конец в виде \`5:00-45:30\` ` +
+      `(длина записи: ${length}).`,
+    trimmed: (start: string, end: string, durationMin: string) =>
+      `✂️ *Фрагмент:* ${start} - ${end}\n` +
+      `⏱ Длительность: ~${durationMin} мин.\n\n` +
+      `Выберите тип контента:`,
+    typeLecture: "📚 Лекция",
+    typeCustdev: "🎯 CustDev",
+    chooseLanguage: "На каком языке запись?",
+    languageUz: "🇺🇿 Узбекский",
+    languageRu: "🇷🇺 Русский",
+    languageEn: "🇬🇧 Английский",
+    languageAuto: "🌐 Определить автоматически",
+    cancel: "❌ Отменить",
+    cancelled: "Отменено",
+    queueFull: (max: number) =>
+      `⏳ *Очередь загрузки заполнена*\n\n` +
+      `Одновременно может ожидать не более ${max} файлов.\n` +
+      `Пожалуйста, дождитесь завершения текущих загрузок.`,
+    queued: (typeName: string, languageName: string) =>
+      `${typeName} · ${languageName}\n\n✅ Добавлено в очередь загрузки`,
+    cancelledMessage: "❌ Отменено. Можете отправить новый файл.",
+    notFound: "⚠️ Медиафайл не найден. Пожалуйста, сначала отправьте видео или аудио.",
+    startFirst: "⚠️ Пожалуйста, сначала отправьте команду /start",
+  },
+
+  uploads: {
+    title: (done: number, total: number) => `📤 Загрузки: ${done}/${total}`,
+    queued: "⏳ В очереди",
+    waiting: (position: number) => `⏳ Очередь: №${position}`,
+    serverBusy: "⏳ Сервер перегружен - скоро повторим",
+    downloading: "⬇️ Скачивание...",
+    uploading: "📤 Загрузка...",
+    speed: (megabytesPerSecond: string) => `${megabytesPerSecond} МБ/с`,
+    etaSeconds: (seconds: number) => `~${seconds} сек. осталось`,
+    etaMinutes: (minutes: number) => `~${minutes} мин. осталось`,
+    done: "✅ Загружено",
+    failed: "❌ Ошибка загрузки - отправьте файл ещё раз",
+    rateLimited: "⏳ Достигнут лимит (10 файлов в час) - попробуйте позже",
+    tooLarge: "📁 Слишком большой для Telegram - используйте веб-приложение",
+    notEnoughMinutes: "💳 Недостаточно минут для этой записи - см. /balance",
+    cancelled: "🚫 Отменено",
+    cancel: (position: number) => `❌ Отменить №${position}`,
+    cancelTooLate: "Этот файл уже загружен",
+    allDone:
+      "Мы сообщим, когда транскрипции и резюме будут готовы.\n" +
+      "Обычно это занимает 5-10 минут.",
+    resumed: (count: number) =>
+      count === 1
+        ? "🔄 Бот перезапустился, но ваша загрузка продолжилась с места остановки."
+        : `🔄 Бот перезапустился, но ваши загрузки (${count}) продолжились с места остановки.`,
+  },
+
+  lectures: {
+    title: (page: number, totalPages: number) => `📚 Ваши записи (${page}/${totalPages})`,
+    empty: "📭 Записей пока нет.\n\nОтправьте видео или аудио - мы его расшифруем.",
+    emptyFiltered: "📭 Записей этого типа нет.",
+    fetchError: "❌ Не удалось загрузить записи. Попробуйте позже.",
+    notFound: "Запись не найдена",
+    filterAll: "Все",
+    status: {
+      pending: "⏳ В очереди",
+      processing: "⚙️ Обрабатывается",
+      completed: "✅ Готово",
+      failed: "❌ Ошибка",
+    },
+    details: (params: { title: string; typeName: string; date: string; duration: string; status: string }) =>
+      `📄 ${params.title}\n\n` +
+      `${params.typeName}\n` +
+      `📅 ${params.date}\n` +
+      `⏱ ${params.duration}\n` +
+      `${params.status}`,
+    unknownDuration: "Длительность неизвестна",
+    openInApp: "🌐 Открыть в веб-приложении",
+    sections: {
+      summary: "📝 Резюме",
+      keyPoints: "📌 Ключевые моменты",
+      transcript: "📜 Транскрипт",
+    },
+    notReady: "Запись ещё не готова",
+    sectionEmpty: "Этот раздел пуст",
+    contentError: "❌ Не удалось загрузить запись. Попробуйте позже.",
+    continueInApp: "✂️ Продолжение - в веб-приложении.",
+  },
+
+  export: {
+    button: "📤 Экспорт",
+    usage:
+      "📤 Чтобы получить запись файлом, откройте её в /lectures и нажмите «Экспорт».\n\n" +
+      "Или отправьте ID записи: /export <id>",
+    chooseFormat: (title: string) => `📤 ${title}\n\nВыберите формат:`,
+    preparing: "Готовим файл...",
+    noTimestamps: "У этой записи нет тайм-кодов - субтитры создать нельзя",
+    failed: "❌ Не удалось создать файл. Попробуйте позже.",
+    headings: {
+      summary: "Резюме",
+      keyPoints: "Ключевые моменты",
+      transcript: "Транскрипт",
+    },
+  },
+
+  inline: {
+    openBot: "🤖 Открыть бота",
+    noResults: "Ничего не найдено",
+  },
+
+  ask: {
+    button: "💬 Задать вопрос",
+    exit: "🚪 Выйти",
+    usage:
+      "💬 Чтобы задать вопрос по записи, откройте её в /lectures и нажмите «Задать вопрос».\n\n" +
+      "Или отправьте ID записи: /ask <id>",
+    started: (title: string) =>
+      `💬 Задавайте любые вопросы по «${title}».\n\n` +
+      `Отправляйте вопросы обычными сообщениями. Когда закончите, нажмите «Выйти» или отправьте /exit.`,
+    active: (title: string) => `💬 Вы задаёте вопросы по «${title}». Отправьте вопрос или выйдите.`,
+    exited: "👋 Вы вышли из режима вопросов.",
+    expired: (title: string) =>
+      `⌛ Режим вопросов по «${title}» завершён из-за неактивности. Чтобы продолжить, снова нажмите «Задать вопрос».`,
+    tooLong: (max: number) => `✂️ Вопрос слишком длинный - не больше ${max} символов.`,
+    failed: "❌ Не удалось получить ответ. Попробуйте ещё раз.",
+  },
+
+  status: {
+    title: "📋 Последние загрузки",
+    empty: "📭 За последние 7 дней из Telegram ничего не загружалось.\n\nВсе ваши записи: /lectures",
+    footer: "Все ваши записи: /lectures",
+  },
+
+  balance: {
+    fetchError: "❌ Не удалось получить баланс.",
+    summary: (params) =>
+      `📊 *Ваш баланс*\n\n` +
+      `📦 Тариф: *${params.planName}*\n\n` +
+      `*Минуты тарифа:*\n` +
+      `${params.progressBar}\n` +
+      `${params.planRemaining}/${params.planTotal} мин.\n\n` +
+      `*Бонусные минуты:* ${params.bonus} мин.\n\n` +
+      `*Всего доступно:* ${params.total} мин.\n\n` +
+      `📅 Следующее обновление через ${params.daysRemaining} дн.\n` +
+      `(${params.renewalDate})`,
+    plans: "📦 Тарифы",
+    buyMinutes: "➕ Купить минуты",
+    notEnoughMinutes: (estimated: number, available: number) =>
+      `⚠️ *Недостаточно минут*\n\n` +
+      `Для этой записи нужно примерно *${estimated} мин.*\n` +
+      `У вас доступно только *${available} мин.*\n\n` +
+      `Пожалуйста, купите дополнительные минуты или смените тариф.`,
+  },
+
+  pricing: {
+    title:
+      "📊 *Тарифы UzNotes*\n\n" +
+      "Каждому пользователю доступно *30 минут* бесплатно каждый месяц\\!\n\n",
+    fetchError: "Не удалось загрузить тарифы. Попробуйте ещё раз.",
+    extraMinutes: "➕ Дополнительные минуты",
+    planNotFound: "Тариф не найден",
+    planFeatures: {
+      starter: [
+        "✅ 300 минут (5 часов) видео",
+        "✅ Безлимитная транскрипция",
+        "✅ AI-резюме",
+        "✅ Telegram + Web",
+      ],
+      pro: [
+        "✅ 900 минут (15 часов) видео",
+        "✅ Безлимитная транскрипция",
+        "✅ AI-резюме",
+        "✅ Анализ CustDev",
+        "✅ Telegram + Web",
+        "✅ Папки и теги",
+      ],
+      business: [
+        "✅ 2400 минут (40 часов) видео",
+        "✅ Безлимитная транскрипция",
+        "✅ AI-резюме",
+        "✅ Анализ CustDev",
+        "✅ Mind map",
+        "✅ Telegram + Web",
+        "✅ Папки и теги",
+        "✅ Приоритетная поддержка",
+      ],
+    },
+    planDetails: (name: string, price: string, minutes: number, features: string[]) =>
+      `📦 *Тариф ${name}*\n\n` +
+      `💰 Цена: *${price}/мес.*\n` +
+      `⏱ Минуты: *${minutes} мин.*\n\n` +
+      `*Возможности:*\n${features.join("\n")}\n\n` +
+      `Подтверждаете покупку?`,
+    buy: "✅ Купить",
+    packagesCaption:
+      `➕ *Дополнительные минуты*\n\n` +
+      `Если минуты закончились или их не хватает, ` +
+      `можно купить дополнительные пакеты.\n\n` +
+      `Эти минуты не переносятся на следующий месяц и добавляются к текущему счёту.`,
+    packageNotFound: "Пакет не найден",
+    packageDetails: (name: string, price: string, minutes: number) =>
+      `📦 *Пакет ${name}*\n\n` +
+      `💰 Цена: *${price}*\n` +
+      `⏱ Минуты: *${minutes} мин.*\n\n` +
+      `Эти минуты будут добавлены к вашему счёту.\n\n` +
+      `Подтверждаете покупку?`,
+    planPaymentRequired: (planName: string, price: string) =>
+      `💳 *Требуется оплата*\n\n` +
+      `📦 Тариф: *${planName}*\n` +
+      `💰 Цена: *${price} UZS*\n\n` +
+      `Нажмите кнопку ниже, чтобы оплатить.\n` +
+      `После подтверждения оплаты тариф активируется автоматически.`,
+    packagePaymentRequired: (packageName: string, price: string) =>
+      `💳 *Требуется оплата*\n\n` +
+      `📦 Пакет: *${packageName}*\n` +
+      `💰 Цена: *${price} UZS*\n\n` +
+      `Нажмите кнопку ниже, чтобы оплатить.\n` +
+      `После подтверждения оплаты минуты будут добавлены на ваш счёт.`,
+    goToPayment: "💳 Перейти к оплате",
+    planActivated: (planName: string) =>
+      `✅ *Тариф успешно активирован!*\n\n` +
+      `Теперь вам доступен тариф *${planName}*.\n\n` +
+      `/balance - Посмотреть баланс минут`,
+    packagePurchased:
+      `✅ *Пакет успешно куплен!*\n\n` +
+      `Минуты добавлены на ваш счёт.\n\n` +
+      `/balance - Посмотреть новый баланс`,
+    viewBalance: "📊 Посмотреть баланс",
+  },
+
+  info: {
+    guide:
+      `📚 *Majlees - Инструкция*\n\n` +
+      `*Как пользоваться ботом:*\n\n` +
+      `1️⃣ *Отправьте видео/аудио*\n` +
+      `Отправьте мне видео или аудио файл. Я автоматически обработаю его и сделаю транскрипцию.\n\n` +
+      `2️⃣ *Выберите тип контента*\n` +
+      `После отправки выберите тип контента:\n` +
+      `   • Лекция - для занятий и лекций\n` +
+      `   • CustDev - для интервью и бесед\n\n` +
+      `💡 Подпись к файлу станет названием. Теги #lecture, #custdev, #uz, #ru, #en в подписи ` +
+      `позволяют пропустить вопросы.\n\n` +
+      `3️⃣ *Получите результат*\n` +
+      `AI подготовит транскрипцию, резюме и ключевые мысли.\n\n` +
+      `*Поддерживаемые форматы:*\n` +
+      `📹 Видео: MP4, MOV, AVI, MKV, WEBM\n` +
+      `🎵 Аудио: MP3, WAV, M4A, OGG, FLAC\n\n` +
+      `*Доступные команды:*\n` +
+      `/start - Перезапустить бота\n` +
+      `/info - Инструкция\n` +
+      `/settings - Настройки аккаунта\n` +
+      `/lectures - Ваши записи\n` +
+      `/export - Скачать запись файлом\n` +
+      `/ask - Задать вопрос по записи\n` +
+      `/status - Статус загруженных записей\n` +
+      `/language - Сменить язык\n` +
+      `/balance - Баланс минут\n` +
+      `/pricing - Тарифы\n` +
+      `/help - Помощь\n` +
+      `/app - Открыть веб-приложение\n\n` +
+      `*Есть вопросы?*\n` +
+      `Связь: @majlees\\_ai`,
+  },
+
+  settings: {
+    fetchError: "❌ Не удалось загрузить настройки.",
+    title: `⚙️ *Настройки аккаунта*\n\n`,
+    linkedAccounts: `*Привязанные аккаунты:*\n\n`,
+    googleLinked: (email: string | null | undefined) => `✅ *Google:* ${email || "Привязан"}\n`,
+    googleNotLinked: `❌ *Google:* Не привязан\n`,
+    telegramLinked: (username: string | null) => `✅ *Telegram:* @${username ?? "Привязан"}\n`,
+    telegramNotLinked: `❌ *Telegram:* Не привязан\n`,
+    linkingExplained:
+      `\n*Что такое привязка аккаунтов?*\n` +
+      `Привязав аккаунты, вы получите доступ к одним и тем же данным через Google и Telegram.\n\n`,
+    linkGoogle: "🔗 Привязать Google",
+    unlinkGoogle: "🔓 Отвязать Google",
+    unlinkNote: `💡 *Примечание:* Должен оставаться привязанным хотя бы один способ входа.\n`,
+    linkGoogleGuide:
+      `🔗 *Привязка аккаунта Google*\n\n` +
+      `Чтобы привязать аккаунт Google:\n\n` +
+      `1️⃣ Откройте веб-приложение\n` +
+      `2️⃣ Перейдите в раздел «Настройки»\n` +
+      `3️⃣ Нажмите «Привязать аккаунты»\n` +
+      `4️⃣ Войдите с аккаунтом Google\n\n` +
+      `После привязки вы сможете входить через Google или Telegram.\n\n` +
+      `Все ваши данные будут доступны в обоих аккаунтах.`,
+    unlinkGoogleGuide:
+      `⚠️ *Отвязка аккаунта Google*\n\n` +
+      `Чтобы отвязать Google, воспользуйтесь веб-приложением:\n\n` +
+      `1️⃣ Откройте веб-приложение\n` +
+      `2️⃣ Перейдите в раздел «Настройки»\n` +
+      `3️⃣ Нажмите «Отвязать» рядом с Google\n\n` +
+      `⚠️ *Внимание:* После отвязки Google входить можно будет только через Telegram.`,
+    backToSettings: "⬅️ Вернуться к настройкам",
+    language: "🌐 Til / Язык / Language",
+    chooseLanguage: "🌐 Tilni tanlang / Выберите язык / Choose your language:",
+    languageChanged: "✅ Язык изменён: Русский",
+  },
+
+  accountLinking: {
+    error: "Произошла ошибка. Пожалуйста, попробуйте ещё раз.",
+    processing: "Привязываем аккаунты...",
+    failed: "Не удалось привязать аккаунты.",
+    invalidToken:
+      "Ссылка устарела или недействительна.\n\n" +
+      "Пожалуйста, получите новую ссылку в веб-приложении.",
+    alreadyLinked:
+      "Этот аккаунт Telegram уже привязан.\n\n" +
+      "Если хотите привязать другой аккаунт Google, сначала отмените текущую привязку.",
+    invalidLinkType: "Неверный тип ссылки.",
+    merged:
+      "🎉 *Аккаунты успешно объединены!*\n\n" +
+      "Ваши аккаунты Telegram и Google объединены. " +
+      "Теперь все данные хранятся в одном аккаунте.\n\n" +
+      "Вы можете входить любым из двух способов.",
+    linked:
+      "✅ *Аккаунт Telegram успешно привязан!*\n\n" +
+      "Теперь вы можете входить через Google или Telegram.\n\n" +
+      "Все ваши данные будут доступны в обоих аккаунтах.",
+    failedLater: "Не удалось привязать аккаунты. Пожалуйста, попробуйте позже.",
+  },
+
+  notifications: {
+    summaryTypeLecture: "Итоги встречи",
+    summaryTypeCustdev: "CustDev-анализ",
+    defaultTitle: "Ваша запись",
+    view: (typeName: string) => `Открыть: ${typeName}`,
+    lectureReady: (title: string, typeName: string) =>
+      `✅ ${title} — готово! Нажмите кнопку ниже, чтобы открыть: ${typeName}.`,
+    lectureFailed: (title: string, error: string) =>
+      `❌ Не удалось обработать: ${title} - ${error}`,
+    unknownError: "Неизвестная ошибка",
+    viewBalance: "Посмотреть баланс",
+    paymentSuccess: (itemName: string, isPlan: boolean, amount: string) =>
+      `✅ *Оплата прошла успешно!*\n\n` +
+      `📦 ${isPlan ? "Тариф" : "Пакет"} ${itemName} активирован\n` +
+      `💰 Сумма: ${amount} UZS\n\n` +
+      `Спасибо, что пользуетесь нашим сервисом!`,
+    paymentCancelled: (itemName: string, isPlan: boolean, amount: string) =>
+      `❌ *Оплата отменена*\n\n` +
+      `📦 ${isPlan ? "Тариф" : "Пакет"} ${itemName}\n` +
+      `💰 Сумма: ${amount} UZS\n\n` +
+      `Если у вас есть вопросы, отправьте команду /help.`,
+    paymentFailed: (itemName: string, isPlan: boolean, amount: string) =>
+      `⚠️ *Оплата не прошла*\n\n` +
+      `📦 ${isPlan ? "Тариф" : "Пакет"} ${itemName}\n` +
+      `💰 Сумма: ${amount} UZS\n\n` +
+      `Пожалуйста, попробуйте ещё раз или отправьте команду /pricing.`,
+  },
+};
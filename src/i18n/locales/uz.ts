@@ -0,0 +1,446 @@
+// Uzbek - the source locale; other locales must provide the same keys
+
+export const uz = {
+  languageName: "🇺🇿 O'zbekcha",
+  dateLocale: "uz-UZ",
+
+  common: {
+    startFirst: "Iltimos, avval /start buyrug'ini yuboring",
+    sessionInvalid: "Sizning sessiyangiz yaroqsiz. Iltimos, /start buyrug'ini yuboring.",
+    error: "Xatolik yuz berdi",
+    errorTryAgain: "❌ Xatolik yuz berdi. Iltimos, qayta urinib ko'ring.",
+    errorWithMessage: (message: string) => `❌ ${message}. Iltimos, qayta urinib ko'ring.`,
+    openWebApp: "🌐 Web ilovani ochish",
+    webApp: "🌐 Web ilova",
+    back: "◀️ Orqaga",
+    minutes: (count: number) => `${count} daqiqa`,
+    hours: (count: number) => `${count} soat`,
+  },
+
+  // Persistent reply keyboard buttons
+  buttons: {
+    transcribe: "🎬 Transkriptsiya",
+    balance: "📊 Balans",
+    plans: "📦 Tariflar",
+  },
+
+  menu: {
+    transcribe: "🎬 Transkriptsiya qilish",
+    balance: "📊 Balans",
+    plans: "📦 Tariflar",
+    info: "ℹ️ Qo'llanma",
+    settings: "⚙️ Sozlamalar",
+    home: "🏠 Bosh sahifa",
+    welcome: "Bosh menyuga xush kelibsiz! Quyidagi amallarni tanlang:",
+  },
+
+  start: {
+    slide1Caption:
+      "🎯 *2 soatlik majlis → 2 daqiqada xulosa*\n\n" +
+      "✅ O'zbek, rus, ingliz tillarida transkriptsiya\n" +
+      "✅ AI xulosa va asosiy fikrlar\n" +
+      "✅ CustDev intervyu tahlili",
+    slide2Caption: "📤 *Shunchaki video yoki audio yuboring — qolganini biz qilamiz!*",
+    viewLecture: "Ma'ruzani ko'rish",
+    viewLecturePrompt: "Ma'ruzani ko'rish uchun tugmani bosing:",
+  },
+
+  commands: {
+    transcribeGuide:
+      "🎬 *Video/audio transkriptsiya qilish*\n\n" +
+      "1️⃣ Menga video yoki audio fayl yuboring\n" +
+      "2️⃣ Kontent turini tanlang (Ma'ruza yoki CustDev)\n" +
+      "3️⃣ AI transkriptsiya va xulosa tayyorlaydi\n\n" +
+      "📎 Qo'llab-quvvatlanadigan formatlar: MP4, MP3, WAV, M4A, OGG",
+    help:
+      "Majleesdan dan qanday foydalanish:\n\n" +
+      "1. Menyu tugmasini yoki \"Ilovani ochish\" tugmasini bosing\n" +
+      "2. Audio/video ma'ruzangizni yuklang\n" +
+      "3. Transkriptsiya, xulosa va asosiy fikrlarni oling\n\n" +
+      "Qo'llab-quvvatlanadigan formatlar: MP3, WAV, M4A, MP4 va boshqalar.",
+    openApp: "Majleesni ochish",
+    openAppPrompt: "Ilovani ochish uchun quyidagi tugmani bosing:",
+  },
+
+  media: {
+    unsupported: "Bu media faylni qayta ishlab bo'lmadi.",
+    unsupportedDocument:
+      "❌ *Fayl formati qo'llab-quvvatlanmaydi*\n\n" +
+      "Video yoki audio yozuv yuboring:\n" +
+      "📹 Video: MP4, MOV, AVI, MKV, WEBM\n" +
+      "🎵 Audio: MP3, WAV, M4A, OGG, FLAC",
+    fileTooLarge: (sizeMB: string, maxSizeMB: number) =>
+      `📁 *Fayl juda katta*\n\n` +
+      `📊 Fayl hajmi: ${sizeMB} MB\n` +
+      `⚠️ Telegram orqali maksimum ${maxSizeMB} MB gacha fayl yuklash mumkin.\n\n` +
+      `Katta fayllarni yuklash uchun web ilovadan foydalaning:`,
+    fileReceived: (sizeMB: string, durationMin: string) =>
+      `📁 *Fayl qabul qilindi*\n\n` +
+      `📊 Hajmi: ${sizeMB} MB\n` +
+      `⏱ Davomiyligi: ~${durationMin} daqiqa\n\n` +
+      `Kontent turini tanlang:`,
+    trim: "✂️ Qismini tanlash",
+    trimPrompt: (length: string) =>
+      `✂️ *Qaysi qismini transkriptsiya qilamiz?*\n\n` +
+      `Boshlanish va tugash vaqtini yuboring, masalan: \`5:00-45:30\`\n\n` +
+      `Yozuv uzunligi: ${length}`,
+    trimInvalid: (length: string) =>
+      `⚠️ Vaqtni tushunmadim. Boshlanish va tugashni \`5:00-45:30\` ko'rinishida yuboring ` +
+      `(yozuv uzunligi: ${length}).`,
+    trimmed: (start: string, end: string, durationMin: string) =>
+      `✂️ *Tanlangan qism:* ${start} - ${end}\n` +
+      `⏱ Davomiyligi: ~${durationMin} daqiqa\n\n` +
+      `Kontent turini tanlang:`,
+    typeLecture: "📚 Ma'ruza",
+    typeCustdev: "🎯 CustDev",
+    chooseLanguage: "Yozuv qaysi tilda?",
+    languageUz: "🇺🇿 O'zbekcha",
+    languageRu: "🇷🇺 Ruscha",
+    languageEn: "🇬🇧 Inglizcha",
+    languageAuto: "🌐 Avtomatik aniqlash",
+    cancel: "❌ Bekor qilish",
+    cancelled: "Bekor qilindi",
+    queueFull: (max: number) =>
+      `⏳ *Yuklash navbati to'lgan*\n\n` +
+      `Bir vaqtda ko'pi bilan ${max} ta fayl kutishi mumkin.\n` +
+      `Iltimos, joriy yuklashlar tugashini kuting.`,
+    queued: (typeName: string, languageName: string) =>
+      `${typeName} · ${languageName}\n\n✅ Yuklash navbatiga qo'shildi`,
+    cancelledMessage: "❌ Bekor qilindi. Yangi fayl yuborishingiz mumkin.",
+    notFound: "⚠️ Media topilmadi. Iltimos, avval video yoki audio fayl yuboring.",
+    startFirst: "⚠️ Iltimos, avval /start buyrug'ini yuboring",
+  },
+
+  uploads: {
+    title: (done: number, total: number) => `📤 Yuklashlar: ${done}/${total}`,
+    queued: "⏳ Navbatda",
+    waiting: (position: number) => `⏳ Navbatda: ${position}-o'rin`,
+    serverBusy: "⏳ Server band - birozdan so'ng qayta urinamiz",
+    downloading: "⬇️ Yuklab olinmoqda...",
+    uploading: "📤 Serverga yuklanmoqda...",
+    speed: (megabytesPerSecond: string) => `${megabytesPerSecond} MB/s`,
+    etaSeconds: (seconds: number) => `~${seconds} soniya qoldi`,
+    etaMinutes: (minutes: number) => `~${minutes} daqiqa qoldi`,
+    done: "✅ Yuklandi",
+    failed: "❌ Yuklashda xatolik - faylni qaytadan yuboring",
+    rateLimited: "⏳ Soatlik limit (10 ta fayl) tugadi - keyinroq urinib ko'ring",
+    tooLarge: "📁 Telegram uchun juda katta - web ilovadan foydalaning",
+    notEnoughMinutes: "💳 Bu yozuv uchun daqiqalar yetarli emas - /balance",
+    cancelled: "🚫 Bekor qilindi",
+    cancel: (position: number) => `❌ ${position}-ni bekor qilish`,
+    cancelTooLate: "Bu fayl allaqachon yuklangan",
+    allDone:
+      "Transkriptsiya va xulosalar tayyor bo'lganda xabar beramiz.\n" +
+      "Bu odatda 5-10 daqiqa davom etadi.",
+    resumed: (count: number) =>
+      count === 1
+        ? "🔄 Bot qayta ishga tushdi, lekin yuklashingiz to'xtagan joyidan davom etmoqda."
+        : `🔄 Bot qayta ishga tushdi, lekin ${count} ta yuklashingiz to'xtagan joyidan davom etmoqda.`,
+  },
+
+  lectures: {
+    title: (page: number, totalPages: number) => `📚 Yozuvlaringiz (${page}/${totalPages})`,
+    empty: "📭 Hali yozuvlar yo'q.\n\nVideo yoki audio yuboring - transkriptsiya qilib beramiz.",
+    emptyFiltered: "📭 Bu turdagi yozuvlar yo'q.",
+    fetchError: "❌ Yozuvlarni yuklab bo'lmadi. Keyinroq urinib ko'ring.",
+    notFound: "Yozuv topilmadi",
+    filterAll: "Hammasi",
+    status: {
+      pending: "⏳ Navbatda",
+      processing: "⚙️ Qayta ishlanmoqda",
+      completed: "✅ Tayyor",
+      failed: "❌ Xatolik",
+    },
+    details: (params: { title: string; typeName: string; date: string; duration: string; status: string }) =>
+      `📄 ${params.title}\n\n` +
+      `${params.typeName}\n` +
+      `📅 ${params.date}\n` +
+      `⏱ ${params.duration}\n` +
+      `${params.status}`,
+    unknownDuration: "Davomiyligi noma'lum",
+    openInApp: "🌐 Web ilovada ochish",
+    sections: {
+      summary: "📝 Xulosa",
+      keyPoints: "📌 Asosiy fikrlar",
+      transcript: "📜 Transkript",
+    },
+    notReady: "Yozuv hali tayyor emas",
+    sectionEmpty: "Bu bo'lim bo'sh",
+    contentError: "❌ Yozuvni yuklab bo'lmadi. Keyinroq urinib ko'ring.",
+    continueInApp: "✂️ Davomini web ilovada o'qing.",
+  },
+
+  export: {
+    button: "📤 Eksport",
+    usage:
+      "📤 Yozuvni fayl sifatida olish uchun /lectures dan yozuvni oching va \"Eksport\" tugmasini bosing.\n\n" +
+      "Yoki yozuv ID sini yuboring: /export <id>",
+    chooseFormat: (title: string) => `📤 ${title}\n\nFormatni tanlang:`,
+    preparing: "Fayl tayyorlanmoqda...",
+    noTimestamps: "Bu yozuvda vaqt belgilari yo'q - subtitr yaratib bo'lmaydi",
+    failed: "❌ Faylni yaratib bo'lmadi. Keyinroq urinib ko'ring.",
+    headings: {
+      summary: "Xulosa",
+      keyPoints: "Asosiy fikrlar",
+      transcript: "Transkript",
+    },
+  },
+
+  inline: {
+    openBot: "🤖 Botni ochish",
+    noResults: "Hech narsa topilmadi",
+  },
+
+  ask: {
+    button: "💬 Savol berish",
+    exit: "🚪 Chiqish",
+    usage:
+      "💬 Yozuv bo'yicha savol berish uchun uni /lectures dan oching va \"Savol berish\" tugmasini bosing.\n\n" +
+      "Yoki yozuv ID sini yuboring: /ask <id>",
+    started: (title: string) =>
+      `💬 "${title}" bo'yicha istalgan savolni bering.\n\n` +
+      `Savollarni oddiy xabar sifatida yuboring. Tugatgach "Chiqish" tugmasini bosing yoki /exit yuboring.`,
+    active: (title: string) => `💬 Siz "${title}" bo'yicha savol beryapsiz. Savolingizni yuboring yoki chiqing.`,
+    exited: "👋 Savol-javob rejimidan chiqdingiz.",
+    expired: (title: string) =>
+      `⌛ "${title}" bo'yicha savol-javob faolsizlik sababli yakunlandi. Davom etish uchun "Savol berish" tugmasini yana bosing.`,
+    tooLong: (max: number) => `✂️ Savol juda uzun - ${max} belgidan oshmasin.`,
+    failed: "❌ Javob olib bo'lmadi. Qaytadan urinib ko'ring.",
+  },
+
+  status: {
+    title: "📋 So'nggi yuklangan yozuvlar",
+    empty: "📭 So'nggi 7 kunda Telegramdan yozuv yuklanmagan.\n\nBarcha yozuvlaringiz: /lectures",
+    footer: "Barcha yozuvlaringiz: /lectures",
+  },
+
+  balance: {
+    fetchError: "❌ Balansni olishda xatolik yuz berdi.",
+    summary: (params: {
+      planName: string;
+      progressBar: string;
+      planRemaining: number;
+      planTotal: number;
+      bonus: number;
+      total: number;
+      daysRemaining: number;
+      renewalDate: string;
+    }) =>
+      `📊 *Sizning balansigiz*\n\n` +
+      `📦 Tarif: *${params.planName}*\n\n` +
+      `*Tarif daqiqalari:*\n` +
+      `${params.progressBar}\n` +
+      `${params.planRemaining}/${params.planTotal} daqiqa\n\n` +
+      `*Bonus daqiqalar:* ${params.bonus} daqiqa\n\n` +
+      `*Jami mavjud:* ${params.total} daqiqa\n\n` +
+      `📅 Keyingi yangilanish: ${params.daysRemaining} kundan keyin\n` +
+      `(${params.renewalDate})`,
+    plans: "📦 Tariflar",
+    buyMinutes: "➕ Daqiqa sotib olish",
+    notEnoughMinutes: (estimated: number, available: number) =>
+      `⚠️ *Yetarli daqiqalar yo'q*\n\n` +
+      `Bu video uchun taxminan *${estimated} daqiqa* kerak.\n` +
+      `Sizda faqat *${available} daqiqa* mavjud.\n\n` +
+      `Iltimos, qo'shimcha daqiqa sotib oling yoki tarifingizni yangilang.`,
+  },
+
+  pricing: {
+    // MarkdownV2 - special characters must be escaped
+    title:
+      "📊 *UzNotes Tariflar*\n\n" +
+      "Har bir foydalanuvchi oyiga *30 daqiqa* bepul sinov imkoniyatiga ega\\!\n\n",
+    fetchError: "Tariflarni olishda xatolik yuz berdi. Qayta urinib ko'ring.",
+    extraMinutes: "➕ Qo'shimcha daqiqalar",
+    planNotFound: "Tarif topilmadi",
+    planFeatures: {
+      starter: [
+        "✅ 300 daqiqa (5 soat) video",
+        "✅ Cheksiz transkriptsiya",
+        "✅ AI xulosalar",
+        "✅ Telegram + Web",
+      ],
+      pro: [
+        "✅ 900 daqiqa (15 soat) video",
+        "✅ Cheksiz transkriptsiya",
+        "✅ AI xulosalar",
+        "✅ CustDev tahlil",
+        "✅ Telegram + Web",
+        "✅ Papkalar va teglar",
+      ],
+      business: [
+        "✅ 2400 daqiqa (40 soat) video",
+        "✅ Cheksiz transkriptsiya",
+        "✅ AI xulosalar",
+        "✅ CustDev tahlil",
+        "✅ Mind map",
+        "✅ Telegram + Web",
+        "✅ Papkalar va teglar",
+        "✅ Ustuvor qo'llab-quvvatlash",
+      ],
+    } as Record<string, string[]>,
+    planDetails: (name: string, price: string, minutes: number, features: string[]) =>
+      `📦 *${name} tarifi*\n\n` +
+      `💰 Narxi: *${price}/oy*\n` +
+      `⏱ Daqiqalar: *${minutes} daqiqa*\n\n` +
+      `*Imkoniyatlar:*\n${features.join("\n")}\n\n` +
+      `Sotib olishni tasdiqlaysizmi?`,
+    buy: "✅ Sotib olish",
+    packagesCaption:
+      `➕ *Qo'shimcha daqiqalar*\n\n` +
+      `Agar daqiqalaringiz tugab qolsa yoki yetarli bo'lmasa, ` +
+      `qo'shimcha paketlar sotib olishingiz mumkin.\n\n` +
+      `Bu daqiqalar keyingi oyga o'tmaydi va hozirgi hisobingizga qo'shiladi.`,
+    packageNotFound: "Paket topilmadi",
+    packageDetails: (name: string, price: string, minutes: number) =>
+      `📦 *${name} paketi*\n\n` +
+      `💰 Narxi: *${price}*\n` +
+      `⏱ Daqiqalar: *${minutes} daqiqa*\n\n` +
+      `Bu daqiqalar hozirgi hisobingizga qo'shiladi.\n\n` +
+      `Sotib olishni tasdiqlaysizmi?`,
+    planPaymentRequired: (planName: string, price: string) =>
+      `💳 *To'lov talab qilinadi*\n\n` +
+      `📦 Tarif: *${planName}*\n` +
+      `💰 Narxi: *${price} UZS*\n\n` +
+      `Quyidagi tugmani bosib to'lovni amalga oshiring.\n` +
+      `To'lov tasdiqlangandan so'ng tarif avtomatik faollashadi.`,
+    packagePaymentRequired: (packageName: string, price: string) =>
+      `💳 *To'lov talab qilinadi*\n\n` +
+      `📦 Paket: *${packageName}*\n` +
+      `💰 Narxi: *${price} UZS*\n\n` +
+      `Quyidagi tugmani bosib to'lovni amalga oshiring.\n` +
+      `To'lov tasdiqlangandan so'ng daqiqalar hisobingizga qo'shiladi.`,
+    goToPayment: "💳 To'lovga o'tish",
+    planActivated: (planName: string) =>
+      `✅ *Tarif muvaffaqiyatli faollashtirildi!*\n\n` +
+      `Siz endi *${planName}* tarifidan foydalanishingiz mumkin.\n\n` +
+      `/balance - Daqiqalar balansini ko'rish`,
+    packagePurchased:
+      `✅ *Paket muvaffaqiyatli sotib olindi!*\n\n` +
+      `Daqiqalar hisobingizga qo'shildi.\n\n` +
+      `/balance - Yangi balansni ko'rish`,
+    viewBalance: "📊 Balansni ko'rish",
+  },
+
+  info: {
+    guide:
+      `📚 *Majleesdan - Foydalanish qo'llanmasi*\n\n` +
+      `*Botdan qanday foydalanish:*\n\n` +
+      `1️⃣ *Video/Audio yuborish*\n` +
+      `Menga video yoki audio fayl yuboring. Men uni avtomatik qayta ishlab, transkriptsiya qilaman.\n\n` +
+      `2️⃣ *Kontent turini tanlash*\n` +
+      `Yuborilgandan so'ng, kontent turini tanlang:\n` +
+      `   • Ma'ruza - darslar va ma'ruzalar uchun\n` +
+      `   • CustDev - intervyu va suhbatlar uchun\n\n` +
+      `💡 Faylga izoh yozsangiz, u sarlavha bo'ladi. Izohdagi #maruza, #custdev, #uz, #ru, #en ` +
+      `teglari savollarni o'tkazib yuboradi.\n\n` +
+      `3️⃣ *Natijalarni olish*\n` +
+      `AI transkriptsiya, xulosa va asosiy fikrlarni tayyorlaydi.\n\n` +
+      `*Qo'llab-quvvatlanadigan formatlar:*\n` +
+      `📹 Video: MP4, MOV, AVI, MKV, WEBM\n` +
+      `🎵 Audio: MP3, WAV, M4A, OGG, FLAC\n\n` +
+      `*Mavjud buyruqlar:*\n` +
+      `/start - Botni qayta ishga tushirish\n` +
+      `/info - Foydalanish qo'llanmasi\n` +
+      `/settings - Hisob sozlamalari\n` +
+      `/lectures - Yozuvlaringiz\n` +
+      `/export - Yozuvni fayl sifatida olish\n` +
+      `/ask - Yozuv bo'yicha savol berish\n` +
+      `/status - Yuklangan yozuvlar holati\n` +
+      `/language - Tilni o'zgartirish\n` +
+      `/balance - Daqiqalar balansini ko'rish\n` +
+      `/pricing - Tariflarni ko'rish\n` +
+      `/help - Yordam\n` +
+      `/app - Web ilovani ochish\n\n` +
+      `*Savollaringiz bormi?*\n` +
+      `Aloqa: @majlees\\_ai`,
+  },
+
+  settings: {
+    fetchError: "❌ Sozlamalarni olishda xatolik yuz berdi.",
+    title: `⚙️ *Hisob sozlamalari*\n\n`,
+    linkedAccounts: `*Ulangan hisoblar:*\n\n`,
+    googleLinked: (email: string | null | undefined) => `✅ *Google:* ${email || "Ulangan"}\n`,
+    googleNotLinked: `❌ *Google:* Ulanmagan\n`,
+    telegramLinked: (username: string | null) => `✅ *Telegram:* @${username ?? "Ulangan"}\n`,
+    telegramNotLinked: `❌ *Telegram:* Ulanmagan\n`,
+    linkingExplained:
+      `\n*Hisob ulash nima?*\n` +
+      `Hisoblarni ulash orqali siz Google va Telegram orqali bir xil ma'lumotlarga kirishingiz mumkin.\n\n`,
+    linkGoogle: "🔗 Google ulash",
+    unlinkGoogle: "🔓 Google uzish",
+    unlinkNote: `💡 *Eslatma:* Kamida bitta autentifikatsiya usuli ulangan bo'lishi kerak.\n`,
+    linkGoogleGuide:
+      `🔗 *Google hisobini ulash*\n\n` +
+      `Google hisobingizni ulash uchun:\n\n` +
+      `1️⃣ Web ilovani oching\n` +
+      `2️⃣ Sozlamalar bo'limiga o'ting\n` +
+      `3️⃣ "Hisoblarni ulash" tugmasini bosing\n` +
+      `4️⃣ Google hisobingiz bilan kiring\n\n` +
+      `Ulangandan so'ng, siz Google yoki Telegram orqali tizimga kirishingiz mumkin bo'ladi.\n\n` +
+      `Barcha ma'lumotlaringiz har ikki hisobda ham mavjud bo'ladi.`,
+    unlinkGoogleGuide:
+      `⚠️ *Google hisobini uzish*\n\n` +
+      `Google hisobingizni uzish uchun web ilovadan foydalaning:\n\n` +
+      `1️⃣ Web ilovani oching\n` +
+      `2️⃣ Sozlamalar bo'limiga o'ting\n` +
+      `3️⃣ Google yonidagi "Uzish" tugmasini bosing\n\n` +
+      `⚠️ *Diqqat:* Google uzilgandan so'ng, faqat Telegram orqali tizimga kirishingiz mumkin bo'ladi.`,
+    backToSettings: "⬅️ Sozlamalarga qaytish",
+    language: "🌐 Til / Язык / Language",
+    chooseLanguage: "🌐 Tilni tanlang / Выберите язык / Choose your language:",
+    languageChanged: "✅ Til o'zgartirildi: O'zbekcha",
+  },
+
+  accountLinking: {
+    error: "Xatolik yuz berdi. Iltimos, qaytadan urinib ko'ring.",
+    processing: "Hisoblarni ulash jarayoni...",
+    failed: "Hisoblarni ulashda xatolik yuz berdi.",
+    invalidToken:
+      "Havola muddati tugagan yoki noto'g'ri.\n\n" +
+      "Iltimos, web ilovadan yangi havola oling.",
+    alreadyLinked:
+      "Bu Telegram hisobi allaqachon ulangan.\n\n" +
+      "Agar boshqa Google hisobiga ulashni xohlasangiz, avval joriy ulanishni bekor qiling.",
+    invalidLinkType: "Noto'g'ri havola turi.",
+    merged:
+      "🎉 *Hisoblar muvaffaqiyatli birlashtirildi!*\n\n" +
+      "Telegram va Google hisoblaringiz birlashtirildi. " +
+      "Barcha ma'lumotlaringiz endi bir hisobda.\n\n" +
+      "Endi siz ikkala usul bilan ham tizimga kirishingiz mumkin.",
+    linked:
+      "✅ *Telegram hisobi muvaffaqiyatli ulandi!*\n\n" +
+      "Endi siz Google yoki Telegram orqali tizimga kirishingiz mumkin.\n\n" +
+      "Barcha ma'lumotlaringiz har ikki hisobda ham mavjud bo'ladi.",
+    failedLater: "Hisoblarni ulashda xatolik yuz berdi. Iltimos, keyinroq qaytadan urinib ko'ring.",
+  },
+
+  notifications: {
+    summaryTypeLecture: "Majlis xulosasi",
+    summaryTypeCustdev: "CustDev tahlili",
+    defaultTitle: "Yozuvingiz",
+    view: (typeName: string) => `${typeName}ni ko'rish`,
+    lectureReady: (title: string, typeName: string) =>
+      `✅ ${title} tayyor! ${typeName}ni ko'rish uchun quyidagi tugmani bosing.`,
+    lectureFailed: (title: string, error: string) =>
+      `❌ Qayta ishlash muvaffaqiyatsiz: ${title} - ${error}`,
+    unknownError: "Noma'lum xatolik",
+    viewBalance: "Balansni ko'rish",
+    paymentSuccess: (itemName: string, isPlan: boolean, amount: string) =>
+      `✅ *To'lov muvaffaqiyatli!*\n\n` +
+      `📦 ${itemName} ${isPlan ? "tarifi" : "paketi"} faollashtirildi\n` +
+      `💰 Summa: ${amount} UZS\n\n` +
+      `Xizmatimizdan foydalanganingiz uchun rahmat!`,
+    paymentCancelled: (itemName: string, isPlan: boolean, amount: string) =>
+      `❌ *To'lov bekor qilindi*\n\n` +
+      `📦 ${itemName} ${isPlan ? "tarifi" : "paketi"}\n` +
+      `💰 Summa: ${amount} UZS\n\n` +
+      `Agar savollaringiz bo'lsa, /help buyrug'ini yuboring.`,
+    paymentFailed: (itemName: string, isPlan: boolean, amount: string) =>
+      `⚠️ *To'lov amalga oshmadi*\n\n` +
+      `📦 ${itemName} ${isPlan ? "tarifi" : "paketi"}\n` +
+      `💰 Summa: ${amount} UZS\n\n` +
+      `Iltimos, qaytadan urinib ko'ring yoki /pricing buyrug'ini yuboring.`,
+  },
+};
+
+export type Messages = typeof uz;
@@ -1,5 +1,7 @@
 import { createBot } from "./bot/index.js";
+import { uploadQueue } from "./bot/uploads/index.js";
 import { createWebhookServer } from "./webhook/server.js";
+import { lectureReconciler, notificationOutbox } from "./notifications/index.js";
 import { config } from "./config.js";
 
 async function main(): Promise<void> {
@@ -7,21 +9,55 @@ async function main(): Promise<void> {
   console.log("PORT env:", process.env.PORT);
   console.log("WEBHOOK_PORT env:", process.env.WEBHOOK_PORT);
   console.log("Config webhookPort:", config.webhookPort);
-  console.log("WEBHOOK_SECRET configured:", !!config.webhookSecret);
+  console.log("Webhook secrets configured:", config.webhookSecrets.length);
+  console.log("Update mode:", config.updateMode);
   console.log("====================");
 
   const bot = createBot();
   createWebhookServer(bot, config.webhookPort);
 
+  // Continue TUS uploads that the previous run didn't finish
+  uploadQueue.resumeInterrupted().catch((err) => {
+    console.error("Failed to resume interrupted uploads:", err);
+  });
+
+  // Deliver queued notifications (including any the previous run didn't get to)
+  notificationOutbox.start(bot.api);
+  // Queue lecture notifications the backend webhook didn't deliver
+  lectureReconciler.start();
+
   const shutdown = async (signal: string) => {
     console.log(signal + " received. Shutting down...");
-    await bot.stop();
+    lectureReconciler.stop();
+    notificationOutbox.stop();
+    if (config.updateMode === "webhook") {
+      if (config.telegramWebhookDeleteOnShutdown) {
+        await bot.api.deleteWebhook().catch((err) => {
+          console.error("Failed to delete webhook:", err);
+        });
+        console.log("Webhook deleted");
+      }
+    } else {
+      await bot.stop();
+    }
     process.exit(0);
   };
 
   process.on("SIGINT", () => shutdown("SIGINT"));
   process.on("SIGTERM", () => shutdown("SIGTERM"));
 
+  if (config.updateMode === "webhook") {
+    // Updates arrive on the Express server - just tell Telegram where to send them
+    await bot.init();
+    const webhookUrl = config.telegramWebhookUrl.replace(/\/+$/, "") + config.telegramWebhookPath;
+    await bot.api.setWebhook(webhookUrl, {
+      secret_token: config.telegramWebhookSecret,
+    });
+    console.log("Bot @" + bot.botInfo.username + " is running (webhook)!");
+    console.log("Webhook registered: " + webhookUrl);
+    return;
+  }
+
   console.log("Starting bot...");
   await bot.start({
     onStart: (botInfo) => {
@@ -0,0 +1,72 @@
+import { execFile } from "child_process";
+import { stat, unlink } from "fs/promises";
+import { promisify } from "util";
+import { config } from "../config.js";
+import type { TimeRange } from "./time.js";
+
+const execFileAsync = promisify(execFile);
+
+// Long recordings take a while to decode - give up on anything stuck
+const EXTRACT_TIMEOUT_MS = 30 * 60 * 1000;
+
+let ffmpegCheck: Promise<boolean> | undefined;
+
+/**
+ * Whether ffmpeg can be run (checked once per process)
+ */
+export function isFfmpegAvailable(): Promise<boolean> {
+  ffmpegCheck ??= execFileAsync(config.ffmpegPath, ["-version"], { timeout: 10000 }).then(
+    () => true,
+    () => {
+      console.warn("ffmpeg not found: " + config.ffmpegPath);
+      return false;
+    }
+  );
+  return ffmpegCheck;
+}
+
+/**
+ * Extract the audio track of a recording into a mono Opus file with ffmpeg
+ * Speech stays intelligible at 32 kbit/s, so a 2 GB video shrinks to a few
+ * tens of MB. With a range, only that part is kept. Returns false (and
+ * removes any partial output) if ffmpeg is missing, the file has no audio
+ * track or extraction fails.
+ */
+export async function extractAudio(
+  input: string,
+  output: string,
+  range?: TimeRange,
+  signal?: AbortSignal
+): Promise<boolean> {
+  // Seek before the input so long recordings aren't decoded up to the start
+  const rangeArgs = range ? ["-ss", String(range.start), "-t", String(range.end - range.start)] : [];
+
+  try {
+    await execFileAsync(
+      config.ffmpegPath,
+      [
+        "-v", "error", "-y",
+        ...rangeArgs,
+        "-i", input,
+        "-map", "0:a:0", "-vn",
+        "-ac", "1", "-c:a", "libopus", "-b:a", "32k",
+        "-f", "ogg", output,
+      ],
+      { timeout: EXTRACT_TIMEOUT_MS, signal }
+    );
+
+    const { size } = await stat(output);
+    return size > 0;
+  } catch (error) {
+    await unlink(output).catch(() => {});
+    if (signal?.aborted) return false;
+
+    const { code, stderr } = error as NodeJS.ErrnoException & { stderr?: string };
+    console.warn(
+      code === "ENOENT"
+        ? "ffmpeg not found: " + config.ffmpegPath
+        : "ffmpeg could not extract audio: " + (stderr?.trim().split("\n").pop() || "unknown error")
+    );
+    return false;
+  }
+}
@@ -0,0 +1,52 @@
+import path from "path";
+
+// Upload MIME type for each supported file extension
+const AUDIO_FORMATS: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  m4a: "audio/mp4",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/ogg",
+  flac: "audio/flac",
+  aac: "audio/aac",
+};
+
+const VIDEO_FORMATS: Record<string, string> = {
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+  mkv: "video/x-matroska",
+  webm: "video/webm",
+};
+
+function getExtension(fileName: string | undefined): string | undefined {
+  if (!fileName) return undefined;
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return extension || undefined;
+}
+
+/**
+ * Work out the MIME type to upload a document with
+ * Telegram often reports recordings sent "as file" as application/octet-stream,
+ * so a known extension wins over the reported type.
+ * Returns undefined if the file is not audio or video.
+ */
+export function detectMediaMimeType(
+  fileName: string | undefined,
+  mimeType: string | undefined
+): string | undefined {
+  const extension = getExtension(fileName);
+  if (extension) {
+    const known = AUDIO_FORMATS[extension] ?? VIDEO_FORMATS[extension];
+    if (known) return known;
+  }
+
+  const type = mimeType?.toLowerCase().split(";")[0]?.trim();
+  if (type?.startsWith("audio/") || type?.startsWith("video/")) {
+    return type;
+  }
+
+  return undefined;
+}
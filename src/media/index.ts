@@ -0,0 +1,5 @@
+export { detectMediaMimeType } from "./formats.js";
+export { getTelegramFileInput, probeDuration } from "./probe.js";
+export { extractAudio, isFfmpegAvailable } from "./extract.js";
+export { parseTimeRange, formatTimestamp } from "./time.js";
+export type { TimeRange } from "./time.js";
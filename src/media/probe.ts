@@ -0,0 +1,51 @@
+import { execFile } from "child_process";
+import path from "path";
+import { promisify } from "util";
+import { config } from "../config.js";
+
+const execFileAsync = promisify(execFile);
+
+const PROBE_TIMEOUT_MS = 30000;
+// Where the Local Bot API keeps files inside its container
+const LOCAL_BOT_API_ROOT = "/var/lib/telegram-bot-api/";
+
+/**
+ * Path or URL ffprobe can read a Telegram file from, given its getFile path
+ * Local Bot API returns a path on its own filesystem - it is mapped to the
+ * mounted volume when running outside its container.
+ */
+export function getTelegramFileInput(filePath: string, botToken: string): string {
+  if (config.useLocalBotApi) {
+    return config.localBotApiFilesPath && filePath.startsWith(LOCAL_BOT_API_ROOT)
+      ? path.join(config.localBotApiFilesPath, filePath.slice(LOCAL_BOT_API_ROOT.length))
+      : filePath;
+  }
+  return "https://api.telegram.org/file/bot" + botToken + "/" + filePath;
+}
+
+/**
+ * Read the duration of a media file or URL with ffprobe
+ * Returns the duration in whole seconds, or undefined if ffprobe is missing
+ * or can't read the file in time.
+ */
+export async function probeDuration(
+  input: string,
+  timeoutMs: number = PROBE_TIMEOUT_MS
+): Promise<number | undefined> {
+  try {
+    const { stdout } = await execFileAsync(
+      config.ffprobePath,
+      ["-v", "error", "-show_entries", "format=duration", "-of", "default=noprint_wrappers=1:nokey=1", input],
+      { timeout: timeoutMs }
+    );
+
+    const duration = parseFloat(stdout.trim());
+    return Number.isFinite(duration) && duration > 0 ? Math.ceil(duration) : undefined;
+  } catch (error) {
+    // Don't log the error message - it contains the command line, and Cloud API
+    // file URLs include the bot token
+    const code = (error as NodeJS.ErrnoException).code;
+    console.warn(code === "ENOENT" ? "ffprobe not found: " + config.ffprobePath : "ffprobe could not read the file");
+    return undefined;
+  }
+}
@@ -0,0 +1,50 @@
+// Part of a recording, in seconds from its start
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a timestamp like "1:02:03" or "45:30" (a bare number means minutes)
+ */
+export function parseTimestamp(text: string): number | undefined {
+  const parts = text.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) {
+    return undefined;
+  }
+
+  const [first, ...rest] = parts.map(Number);
+  if (first === undefined) return undefined;
+  if (rest.length === 0) return first * 60;
+  if (rest.some((value) => value >= 60)) return undefined;
+
+  return rest.reduce((total, value) => total * 60 + value, first);
+}
+
+/**
+ * Parse a time range like "5:00-45:30" (start and end separated by a dash or space)
+ */
+export function parseTimeRange(text: string): TimeRange | undefined {
+  const match = text.trim().match(/^([\d:]+)\s*[-–—\s]\s*([\d:]+)$/);
+  if (!match?.[1] || !match[2]) return undefined;
+
+  const start = parseTimestamp(match[1]);
+  const end = parseTimestamp(match[2]);
+  if (start === undefined || end === undefined || end <= start) {
+    return undefined;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Format seconds as "1:02:03" or "45:30"
+ */
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+}
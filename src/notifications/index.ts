@@ -0,0 +1,5 @@
+export { sendLectureNotification, sendPaymentNotification } from "./send.js";
+export type { LectureNotification, PaymentNotification } from "./send.js";
+export { lectureReconciler } from "./reconciler.js";
+export { notificationOutbox, lectureNotificationKey } from "./outbox.js";
+export type { Notification, OutboxEntry, DeadLetter } from "./outbox.js";
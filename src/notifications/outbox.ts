@@ -0,0 +1,293 @@
+import { randomBytes } from "crypto";
+import path from "path";
+import type { Api } from "grammy";
+import { GrammyError } from "grammy";
+import { config } from "../config.js";
+import { lectureTracker } from "../bot/uploads/index.js";
+import { FileStorage } from "../storage/index.js";
+import { sendLectureNotification, sendPaymentNotification } from "./send.js";
+import type { LectureNotification, PaymentNotification } from "./send.js";
+
+// Attempts (not counting flood waits) before a notification is given up on
+const MAX_ATTEMPTS = 8;
+// Backoff after a failed attempt: doubles from the base, capped
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+// Keyed notifications are remembered this long after delivery, so a late
+// backend retry (e.g. one that timed out waiting for our 200) isn't sent again
+const DELIVERED_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export type Notification = LectureNotification | PaymentNotification;
+
+// A notification waiting to be delivered
+export interface OutboxEntry {
+  id: string;
+  key?: string; // Dedupe key (the id too) - see lectureNotificationKey
+  notification: Notification;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// A notification that could not be delivered, kept for inspection
+export interface DeadLetter extends OutboxEntry {
+  failedAt: number;
+}
+
+// Record of a delivered keyed notification
+interface DeliveredKey {
+  deliveredAt: number;
+}
+
+/**
+ * Key that identifies a lecture notification, so the same one queued twice
+ * (backend retry, reconciler) is only delivered once
+ */
+export function lectureNotificationKey(notification: LectureNotification): string {
+  return `lecture-${notification.telegramId}-${notification.lectureId}-${notification.status}`;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Errors retrying won't fix - the user blocked the bot or deleted their
+ * account (403), or Telegram rejected the message itself (400)
+ */
+function isPermanentError(error: unknown): boolean {
+  return error instanceof GrammyError && (error.error_code === 403 || error.error_code === 400);
+}
+
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  // Jitter so notifications that failed together don't retry together
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+async function deliver(api: Api, notification: Notification): Promise<void> {
+  switch (notification.type) {
+    case "lecture_notification":
+      await sendLectureNotification(api, notification);
+      return;
+    case "payment_notification":
+      await sendPaymentNotification(api, notification);
+      return;
+  }
+}
+
+/**
+ * On-disk queue of notifications for users, delivered by a single worker
+ * Webhooks are acknowledged once their notification is written here. The
+ * worker sends entries oldest first. On a Telegram flood limit (429) it
+ * waits retry_after before sending anything else; other failures are
+ * retried with exponential backoff. Permanent failures and entries out of
+ * attempts move to the dead-letter directory.
+ */
+class NotificationOutbox {
+  private storage?: FileStorage<OutboxEntry>;
+  private deadLetters?: FileStorage<DeadLetter>;
+  private delivered?: FileStorage<DeliveredKey>;
+  private lastPrunedAt = 0;
+  // Nothing is sent before this (Telegram flood limit)
+  private floodUntil = 0;
+  private api?: Api;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private runAgain = false;
+
+  private getStorage(): FileStorage<OutboxEntry> {
+    this.storage ??= new FileStorage<OutboxEntry>(path.join(config.dataDir, "outbox"));
+    return this.storage;
+  }
+
+  private getDeadLetters(): FileStorage<DeadLetter> {
+    this.deadLetters ??= new FileStorage<DeadLetter>(path.join(config.dataDir, "outbox-failed"));
+    return this.deadLetters;
+  }
+
+  private getDelivered(): FileStorage<DeliveredKey> {
+    this.delivered ??= new FileStorage<DeliveredKey>(path.join(config.dataDir, "outbox-delivered"));
+    return this.delivered;
+  }
+
+  /**
+   * Start delivering, including whatever the previous run left in the outbox
+   */
+  start(api: Api): void {
+    this.api = api;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.api = undefined;
+  }
+
+  /**
+   * Queue a notification. With a key, it is skipped if one with the same key
+   * is still queued or was delivered within DELIVERED_KEY_TTL_MS.
+   */
+  async enqueue(notification: Notification, key?: string): Promise<void> {
+    const storage = this.getStorage();
+    const now = Date.now();
+    if (key) {
+      if (await storage.has(key)) return;
+      const delivered = await this.getDelivered().read(key);
+      if (delivered && now - delivered.deliveredAt < DELIVERED_KEY_TTL_MS) {
+        console.log("Notification " + key + " was already delivered, skipping");
+        return;
+      }
+    }
+
+    const id = key ?? `${now}-${randomBytes(4).toString("hex")}`;
+    await storage.write(id, { id, key, notification, attempts: 0, createdAt: now, nextAttemptAt: now });
+    this.schedule(0);
+  }
+
+  /**
+   * Run the worker after delayMs - or once the flood wait is over, if that is later
+   */
+  private schedule(delayMs: number): void {
+    if (!this.api) return;
+    delayMs = Math.max(delayMs, this.floodUntil - Date.now());
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.run().catch((error) => {
+        console.error("Notification outbox failed:", error);
+      });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private async run(): Promise<void> {
+    const api = this.api;
+    if (!api) return;
+    // Entries queued during a pass are picked up by another one right after
+    if (this.running) {
+      this.runAgain = true;
+      return;
+    }
+    if (Date.now() < this.floodUntil) {
+      this.schedule(0);
+      return;
+    }
+    this.running = true;
+
+    let nextRunIn = Infinity;
+    try {
+      await this.pruneDelivered();
+
+      const entries: OutboxEntry[] = [];
+      for await (const [, entry] of this.getStorage().readAllEntries()) {
+        entries.push(entry);
+      }
+      entries.sort((a, b) => a.createdAt - b.createdAt);
+
+      for (const entry of entries) {
+        const now = Date.now();
+        if (entry.nextAttemptAt > now) {
+          nextRunIn = Math.min(nextRunIn, entry.nextAttemptAt - now);
+          continue;
+        }
+
+        const floodWait = await this.attempt(api, entry);
+        if (floodWait > 0) {
+          nextRunIn = Math.min(nextRunIn, floodWait);
+          break;
+        }
+        if (entry.nextAttemptAt > Date.now()) {
+          nextRunIn = Math.min(nextRunIn, entry.nextAttemptAt - Date.now());
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (this.runAgain) {
+      this.runAgain = false;
+      nextRunIn = 0;
+    }
+    if (nextRunIn !== Infinity) {
+      this.schedule(nextRunIn);
+    }
+  }
+
+  /**
+   * Try to deliver one entry. Returns how long to hold off all sending (flood limit) or 0.
+   * A failed entry is rescheduled in place (its nextAttemptAt is updated).
+   */
+  private async attempt(api: Api, entry: OutboxEntry): Promise<number> {
+    const storage = this.getStorage();
+
+    try {
+      await deliver(api, entry.notification);
+      if (entry.key) {
+        await this.getDelivered().write(entry.key, { deliveredAt: Date.now() });
+      }
+      await storage.delete(entry.id);
+      return 0;
+    } catch (error) {
+      entry.lastError = describeError(error);
+
+      if (error instanceof GrammyError && error.error_code === 429) {
+        const waitMs = (error.parameters.retry_after ?? 1) * 1000;
+        console.warn(`Flood limit while sending notification ${entry.id}, retrying in ${waitMs / 1000}s`);
+        entry.nextAttemptAt = Date.now() + waitMs;
+        this.floodUntil = entry.nextAttemptAt;
+        await storage.write(entry.id, entry);
+        return waitMs;
+      }
+
+      entry.attempts += 1;
+      if (isPermanentError(error) || entry.attempts >= MAX_ATTEMPTS) {
+        await this.deadLetter(entry);
+        return 0;
+      }
+
+      entry.nextAttemptAt = Date.now() + getRetryDelay(entry.attempts);
+      console.warn(
+        `Failed to send notification ${entry.id} (attempt ${entry.attempts}/${MAX_ATTEMPTS}): ${entry.lastError}`
+      );
+      await storage.write(entry.id, entry);
+      return 0;
+    }
+  }
+
+  /**
+   * Forget delivered keys past DELIVERED_KEY_TTL_MS (at most once per PRUNE_INTERVAL_MS)
+   */
+  private async pruneDelivered(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    const delivered = this.getDelivered();
+    for await (const [key, record] of delivered.readAllEntries()) {
+      if (now - record.deliveredAt >= DELIVERED_KEY_TTL_MS) {
+        await delivered.delete(key);
+      }
+    }
+  }
+
+  private async deadLetter(entry: OutboxEntry): Promise<void> {
+    console.error(`Giving up on notification ${entry.id} after ${entry.attempts} attempt(s): ${entry.lastError}`);
+    await this.getDeadLetters().write(entry.id, { ...entry, failedAt: Date.now() });
+    await this.getStorage().delete(entry.id);
+
+    // The user can't be reached - stop the reconciler from queueing it again
+    const notification = entry.notification;
+    if (notification.type === "lecture_notification") {
+      await lectureTracker
+        .markNotified(notification.telegramId, notification.lectureId, notification.status)
+        .catch((error) => {
+          console.error("Failed to update tracked lecture " + notification.lectureId + ":", error);
+        });
+    }
+  }
+}
+
+export const notificationOutbox = new NotificationOutbox();
@@ -0,0 +1,108 @@
+import { apiClient } from "../api/client.js";
+import type { Lecture } from "../api/index.js";
+import { config } from "../config.js";
+import { storedSessionAuth } from "../bot/middlewares/auth.js";
+import { readSession } from "../bot/session.js";
+import { MAX_TRACK_AGE_MS, isLectureFinished, lectureTracker } from "../bot/uploads/index.js";
+import type { TrackedLecture } from "../bot/uploads/index.js";
+import type { LectureNotification } from "./send.js";
+import { lectureNotificationKey, notificationOutbox } from "./outbox.js";
+
+// Give the backend's own notification this long to arrive before sending one
+const NOTIFY_GRACE_MS = 2 * 60 * 1000;
+
+/**
+ * Sends lecture notifications that the backend webhook never delivered
+ * Every interval, each tracked lecture nobody was told about yet is looked up
+ * on the backend. Once it has been finished for NOTIFY_GRACE_MS without a
+ * webhook, the bot queues the notification itself.
+ */
+class LectureReconciler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  start(): void {
+    if (this.timer || config.lectureReconcileIntervalMs <= 0) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => {
+        console.error("Lecture reconciliation failed:", error);
+      });
+    }, config.lectureReconcileIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async run(): Promise<void> {
+    // A slow pass can outlast the interval - don't start a second one
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for await (const entry of lectureTracker.entries()) {
+        try {
+          await this.reconcile(entry);
+        } catch (error) {
+          console.error("Failed to reconcile lecture " + entry.lectureId + ":", error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reconcile(entry: TrackedLecture): Promise<void> {
+    const now = Date.now();
+    if (now - entry.uploadedAt > MAX_TRACK_AGE_MS) {
+      await lectureTracker.remove(entry);
+      return;
+    }
+    if (entry.notifiedAt) return;
+
+    // Logged out users' lectures can't be looked up - they stay until they expire
+    const session = await readSession(entry.chatId);
+    if (!session?.tokens) return;
+
+    const response = await apiClient.getLecture(storedSessionAuth(entry.chatId, session.tokens), entry.lectureId);
+    if (!response.success || !response.data) return;
+
+    // The webhook may have arrived while the backend was asked
+    const latest = await lectureTracker.get(entry.chatId, entry.lectureId);
+    if (!latest || latest.notifiedAt) return;
+
+    const lecture = response.data.lecture;
+    const finished = isLectureFinished(lecture.status);
+    const updated: TrackedLecture = {
+      ...latest,
+      title: lecture.title ?? latest.title,
+      status: lecture.status,
+      checkedAt: now,
+      finishedAt: finished ? (latest.finishedAt ?? now) : undefined,
+    };
+    await lectureTracker.save(updated);
+
+    if (updated.finishedAt !== undefined && now - updated.finishedAt >= NOTIFY_GRACE_MS) {
+      await this.notify(updated, lecture);
+    }
+  }
+
+  private async notify(entry: TrackedLecture, lecture: Lecture): Promise<void> {
+    console.log("Queueing missed notification for lecture " + entry.lectureId);
+    const notification: LectureNotification = {
+      type: "lecture_notification",
+      telegramId: entry.chatId,
+      lectureId: entry.lectureId,
+      status: lecture.status === "completed" ? "completed" : "failed",
+      title: entry.title,
+      summarizationType: entry.summarizationType,
+      errorMessage: lecture.errorMessage ?? undefined,
+    };
+    await notificationOutbox.enqueue(notification, lectureNotificationKey(notification));
+  }
+}
+
+export const lectureReconciler = new LectureReconciler();
@@ -0,0 +1,119 @@
+import type { Api } from "grammy";
+import { InlineKeyboard } from "grammy";
+import { config } from "../config.js";
+import { readSession } from "../bot/session.js";
+import { DEFAULT_LOCALE, getMessages, resolveLocale } from "../i18n/index.js";
+import type { Messages } from "../i18n/index.js";
+import { addLectureSectionButtons, getLectureWebAppUrl } from "../bot/handlers/index.js";
+import { lectureTracker } from "../bot/uploads/index.js";
+
+export interface LectureNotification {
+  type: "lecture_notification";
+  telegramId: number;
+  lectureId: string;
+  status: "completed" | "failed";
+  title?: string;
+  summarizationType?: string;
+  errorMessage?: string;
+}
+
+export interface PaymentNotification {
+  type: "payment_notification";
+  telegramId: number;
+  status: "success" | "failed" | "cancelled";
+  amount: number;
+  paymentType: "plan" | "package";
+  itemName: string;
+}
+
+/**
+ * Messages in the recipient's language (falls back to the default locale)
+ */
+async function messagesFor(telegramId: number): Promise<Messages> {
+  try {
+    const session = await readSession(telegramId);
+    return getMessages(resolveLocale(session?.locale, session?.user?.telegramLanguageCode));
+  } catch (error) {
+    console.error("Failed to read session for " + telegramId + ":", error);
+    return getMessages(DEFAULT_LOCALE);
+  }
+}
+
+/**
+ * Tell the user a lecture finished processing
+ * Marks the lecture notified, so the reconciler doesn't send it again.
+ */
+export async function sendLectureNotification(
+  api: Api,
+  notification: LectureNotification
+): Promise<void> {
+  const { telegramId, lectureId, status, title, summarizationType, errorMessage } = notification;
+  const messages = await messagesFor(telegramId);
+  const t = messages.notifications;
+  const displayTitle = title || t.defaultTitle;
+
+  if (status === "completed") {
+    const typeName = summarizationType === "custdev" ? t.summaryTypeCustdev : t.summaryTypeLecture;
+
+    // Summary, key points and transcript can be read right in the chat
+    const keyboard = new InlineKeyboard()
+      .webApp(t.view(typeName), getLectureWebAppUrl(lectureId))
+      .row();
+    addLectureSectionButtons(keyboard, messages, lectureId)
+      .text(messages.export.button, "export:" + lectureId)
+      .text(messages.ask.button, "ask:" + lectureId);
+
+    await api.sendMessage(
+      telegramId,
+      t.lectureReady(displayTitle, typeName),
+      { reply_markup: keyboard }
+    );
+  } else {
+    await api.sendMessage(
+      telegramId,
+      t.lectureFailed(displayTitle, errorMessage || t.unknownError)
+    );
+  }
+
+  await lectureTracker.markNotified(telegramId, lectureId, status).catch((error) => {
+    console.error("Failed to record notification for lecture " + lectureId + ":", error);
+  });
+}
+
+export async function sendPaymentNotification(
+  api: Api,
+  notification: PaymentNotification
+): Promise<void> {
+  const { telegramId, status, amount, paymentType, itemName } = notification;
+  const t = (await messagesFor(telegramId)).notifications;
+
+  // Format amount with thousands separator
+  const formattedAmount = amount.toLocaleString("uz-UZ");
+  const isPlan = paymentType === "plan";
+
+  if (status === "success") {
+    const keyboard = new InlineKeyboard()
+      .webApp(t.viewBalance, config.webAppUrl + "?startapp=balance");
+
+    await api.sendMessage(
+      telegramId,
+      t.paymentSuccess(itemName, isPlan, formattedAmount),
+      {
+        parse_mode: "Markdown",
+        reply_markup: keyboard
+      }
+    );
+  } else if (status === "cancelled") {
+    await api.sendMessage(
+      telegramId,
+      t.paymentCancelled(itemName, isPlan, formattedAmount),
+      { parse_mode: "Markdown" }
+    );
+  } else {
+    await api.sendMessage(
+      telegramId,
+      t.paymentFailed(itemName, isPlan, formattedAmount),
+      { parse_mode: "Markdown" }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { mkdir, readFile, writeFile, rename, unlink, readdir } from "fs/promises";
+import path from "path";
+import type { StorageAdapter } from "grammy";
+
+const FILE_EXTENSION = ".json";
+
+/**
+ * JSON file storage - one file per key inside a directory
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * mid-write never leaves a half-written value behind.
+ * Compatible with grammY's StorageAdapter so it can back sessions directly.
+ */
+export class FileStorage<T> implements StorageAdapter<T> {
+  private directory: string;
+  private ready: Promise<void> | null = null;
+  // Per-key write chains so concurrent writes to the same key don't interleave
+  private pending = new Map<string, Promise<void>>();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async read(key: string): Promise<T | undefined> {
+    await this.ensureDirectory();
+    await this.pending.get(key)?.catch(() => {});
+
+    try {
+      const text = await readFile(this.filePath(key), "utf8");
+      return JSON.parse(text) as T;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      console.error(`Failed to read storage file for key ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  async write(key: string, value: T): Promise<void> {
+    await this.enqueue(key, async () => {
+      const target = this.filePath(key);
+      const temp = `${target}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(value), { encoding: "utf8", mode: 0o600 });
+      await rename(temp, target);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.enqueue(key, async () => {
+      try {
+        await unlink(this.filePath(key));
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    });
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.read(key)) !== undefined;
+  }
+
+  async *readAllKeys(): AsyncIterable<string> {
+    await this.ensureDirectory();
+    const files = await readdir(this.directory);
+    for (const file of files) {
+      if (file.endsWith(FILE_EXTENSION)) {
+        yield decodeURIComponent(file.slice(0, -FILE_EXTENSION.length));
+      }
+    }
+  }
+
+  async *readAllEntries(): AsyncIterable<[key: string, value: T]> {
+    for await (const key of this.readAllKeys()) {
+      const value = await this.read(key);
+      if (value !== undefined) {
+        yield [key, value];
+      }
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, encodeURIComponent(key) + FILE_EXTENSION);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true, mode: 0o700 }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  private async enqueue(key: string, task: () => Promise<void>): Promise<void> {
+    await this.ensureDirectory();
+
+    const previous = this.pending.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.pending.set(key, next);
+
+    try {
+      await next;
+    } finally {
+      // Only clear the chain if nothing else was queued behind us
+      if (this.pending.get(key) === next) {
+        this.pending.delete(key);
+      }
+    }
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
@@ -0,0 +1 @@
+export { FileStorage } from "./fileStorage.js";
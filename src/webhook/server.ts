@@ -1,52 +1,54 @@
 import express from "express";
 import type { Bot } from "grammy";
-import { InlineKeyboard } from "grammy";
+import { webhookCallback } from "grammy";
 import type { BotContext } from "../bot/context.js";
 import { config } from "../config.js";
-
-export interface LectureNotification {
-  type: "lecture_notification";
-  telegramId: number;
-  lectureId: string;
-  status: "completed" | "failed";
-  title?: string;
-  summarizationType?: string;
-  errorMessage?: string;
-}
-
-export interface PaymentNotification {
-  type: "payment_notification";
-  telegramId: number;
-  status: "success" | "failed" | "cancelled";
-  amount: number;
-  paymentType: "plan" | "package";
-  itemName: string;
-}
+import { lectureNotificationKey, notificationOutbox } from "../notifications/index.js";
+import type { LectureNotification, PaymentNotification } from "../notifications/index.js";
+import { verifyWebhookSignature } from "./signature.js";
+import type { RawBodyRequest } from "./signature.js";
 
 export function createWebhookServer(bot: Bot<BotContext>, port: number = 3001) {
   const app = express();
-  app.use(express.json());
+  app.use(
+    express.json({
+      // Webhook signatures are computed over the exact bytes that were sent
+      verify: (req, _res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+      },
+    })
+  );
+
+  // Backend webhooks must be signed - only development runs may go without a secret
+  const requireSignature =
+    config.webhookSecrets.length > 0
+      ? verifyWebhookSignature(config.webhookSecrets, config.webhookMaxAgeSeconds)
+      : (_req: express.Request, _res: express.Response, next: express.NextFunction) => next();
+  if (config.webhookSecrets.length === 0) {
+    console.warn("WEBHOOK_SECRET is not set - accepting unsigned backend webhooks");
+  }
 
   app.get("/health", (_req, res) => {
     res.json({ status: "ok" });
   });
 
-  app.post("/webhook/lecture", async (req, res) => {
-    console.log("Received lecture webhook request");
-    const authHeader = req.headers.authorization;
-    const expectedSecret = config.webhookSecret;
-
-    // Debug logging (without revealing full secrets)
-    console.log("Auth header present:", !!authHeader);
-    console.log("Expected secret configured:", !!expectedSecret);
-
-    if (expectedSecret && authHeader !== "Bearer " + expectedSecret) {
-      console.log("Unauthorized webhook request - secret mismatch");
-      console.log("Auth header prefix:", authHeader?.substring(0, 15) + "...");
-      res.status(401).json({ error: "Unauthorized" });
-      return;
-    }
+  // Telegram updates (webhook mode) - verified with the secret token Telegram sends
+  if (config.updateMode === "webhook") {
+    app.post(
+      config.telegramWebhookPath,
+      webhookCallback(bot, "express", {
+        secretToken: config.telegramWebhookSecret,
+        // Handlers can outlast grammY's timeout - backend calls, exports and
+        // answers take a while, and a chat's updates wait for the one before.
+        // Answer Telegram anyway instead of failing, so it doesn't redeliver.
+        onTimeout: "return",
+      })
+    );
+    console.log("Telegram webhook endpoint mounted at " + config.telegramWebhookPath);
+  }
 
+  app.post("/webhook/lecture", requireSignature, async (req, res) => {
+    console.log("Received lecture webhook request");
     const notification = req.body as LectureNotification;
     
     if (notification.type !== "lecture_notification") {
@@ -56,27 +58,19 @@ export function createWebhookServer(bot: Bot<BotContext>, port: number = 3001) {
 
     console.log("Received notification:", notification.lectureId, notification.status);
 
+    // Acknowledged once stored - the outbox worker delivers it (with retries)
     try {
-      await sendLectureNotification(bot, notification);
+      await notificationOutbox.enqueue(notification, lectureNotificationKey(notification));
       res.json({ success: true });
     } catch (error) {
-      console.error("Failed to send notification:", error);
-      res.status(500).json({ error: "Failed to send notification" });
+      console.error("Failed to queue notification:", error);
+      res.status(500).json({ error: "Failed to queue notification" });
     }
   });
 
   // Payment notification webhook
-  app.post("/webhook/payment", async (req, res) => {
+  app.post("/webhook/payment", requireSignature, async (req, res) => {
     console.log("Received payment webhook request");
-    const authHeader = req.headers.authorization;
-    const expectedSecret = config.webhookSecret;
-
-    if (expectedSecret && authHeader !== "Bearer " + expectedSecret) {
-      console.log("Unauthorized payment webhook request");
-      res.status(401).json({ error: "Unauthorized" });
-      return;
-    }
-
     const notification = req.body as PaymentNotification;
 
     if (notification.type !== "payment_notification") {
@@ -87,11 +81,11 @@ export function createWebhookServer(bot: Bot<BotContext>, port: number = 3001) {
     console.log("Received payment notification:", notification.status, notification.amount);
 
     try {
-      await sendPaymentNotification(bot, notification);
+      await notificationOutbox.enqueue(notification);
       res.json({ success: true });
     } catch (error) {
-      console.error("Failed to send payment notification:", error);
-      res.status(500).json({ error: "Failed to send notification" });
+      console.error("Failed to queue payment notification:", error);
+      res.status(500).json({ error: "Failed to queue notification" });
     }
   });
 
@@ -101,79 +95,3 @@ export function createWebhookServer(bot: Bot<BotContext>, port: number = 3001) {
 
   return app;
 }
-
-async function sendLectureNotification(
-  bot: Bot<BotContext>,
-  notification: LectureNotification
-): Promise<void> {
-  const { telegramId, lectureId, status, title, summarizationType, errorMessage } = notification;
-
-  if (status === "completed") {
-    const deepLink = config.webAppUrl + "?startapp=lecture_" + lectureId;
-    const typeName = summarizationType === "custdev" ? "CustDev Analysis" : "Meeting Summary";
-    const displayTitle = title || "Your recording";
-
-    const keyboard = new InlineKeyboard()
-      .webApp("View " + typeName, deepLink);
-
-    await bot.api.sendMessage(
-      telegramId,
-      displayTitle + " is ready! Click below to view your " + typeName.toLowerCase() + ".",
-      { reply_markup: keyboard }
-    );
-  } else {
-    const displayTitle = title || "Your recording";
-    const errorMsg = errorMessage || "Unknown error";
-
-    await bot.api.sendMessage(
-      telegramId,
-      "Processing Failed: " + displayTitle + " - " + errorMsg
-    );
-  }
-}
-
-async function sendPaymentNotification(
-  bot: Bot<BotContext>,
-  notification: PaymentNotification
-): Promise<void> {
-  const { telegramId, status, amount, paymentType, itemName } = notification;
-
-  // Format amount with thousands separator
-  const formattedAmount = amount.toLocaleString("uz-UZ");
-  const typeText = paymentType === "plan" ? "tarif" : "paket";
-
-  if (status === "success") {
-    const keyboard = new InlineKeyboard()
-      .webApp("Balansni ko'rish", config.webAppUrl + "?startapp=balance");
-
-    await bot.api.sendMessage(
-      telegramId,
-      `✅ *To'lov muvaffaqiyatli!*\n\n` +
-      `📦 ${itemName} ${typeText}i faollashtirildi\n` +
-      `💰 Summa: ${formattedAmount} UZS\n\n` +
-      `Xizmatimizdan foydalanganingiz uchun rahmat!`,
-      {
-        parse_mode: "Markdown",
-        reply_markup: keyboard
-      }
-    );
-  } else if (status === "cancelled") {
-    await bot.api.sendMessage(
-      telegramId,
-      `❌ *To'lov bekor qilindi*\n\n` +
-      `📦 ${itemName} ${typeText}i\n` +
-      `💰 Summa: ${formattedAmount} UZS\n\n` +
-      `Agar savollaringiz bo'lsa, /help buyrug'ini yuboring.`,
-      { parse_mode: "Markdown" }
-    );
-  } else {
-    await bot.api.sendMessage(
-      telegramId,
-      `⚠️ *To'lov amalga oshmadi*\n\n` +
-      `📦 ${itemName} ${typeText}i\n` +
-      `💰 Summa: ${formattedAmount} UZS\n\n` +
-      `Iltimos, qaytadan urinib ko'ring yoki /pricing buyrug'ini yuboring.`,
-      { parse_mode: "Markdown" }
-    );
-  }
-}
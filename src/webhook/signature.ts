@@ -0,0 +1,90 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+// Unix time (seconds) the backend signed the request at
+export const TIMESTAMP_HEADER = "x-webhook-timestamp";
+// "sha256=" + hex HMAC-SHA256 of "<timestamp>.<raw body>"
+export const SIGNATURE_HEADER = "x-webhook-signature";
+const SIGNATURE_PREFIX = "sha256=";
+// Exactly one form is accepted, so a replay can't pass as a new signature
+// (upper-case hex or trailing junk decode to the same bytes)
+const SIGNATURE_PATTERN = /^sha256=[0-9a-f]{64}$/;
+
+// Request with the unparsed body kept by express.json (see server.ts)
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+export function signWebhook(secret: string, timestamp: number | string, body: Buffer | string): string {
+  const hmac = createHmac("sha256", secret);
+  hmac.update(`${timestamp}.`);
+  hmac.update(body);
+  return SIGNATURE_PREFIX + hmac.digest("hex");
+}
+
+function matchesAnySecret(secrets: readonly string[], timestamp: string, body: Buffer, signature: string): boolean {
+  const received = Buffer.from(signature.slice(SIGNATURE_PREFIX.length), "hex");
+
+  // Every secret is checked, so timing doesn't tell which one matched
+  let matched = false;
+  for (const secret of secrets) {
+    const expected = Buffer.from(signWebhook(secret, timestamp, body).slice(SIGNATURE_PREFIX.length), "hex");
+    if (received.length === expected.length && timingSafeEqual(received, expected)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Express middleware that only lets through webhooks signed with one of the secrets
+ * The signature covers the timestamp, so a captured request can't be sent
+ * again once it is older than maxAgeSeconds, and within that window each
+ * signature is accepted once.
+ */
+export function verifyWebhookSignature(secrets: readonly string[], maxAgeSeconds: number) {
+  // Requests (hash of timestamp and body) accepted within the window, with
+  // when they can be forgotten. Keyed on what was signed rather than the
+  // signature, so the same request signed with another secret is a replay too.
+  const seen = new Map<string, number>();
+
+  return (req: RawBodyRequest, res: Response, next: NextFunction): void => {
+    const reject = (reason: string) => {
+      console.log("Rejected webhook " + req.path + ": " + reason);
+      res.status(401).json({ error: "Unauthorized" });
+    };
+
+    const timestamp = req.header(TIMESTAMP_HEADER);
+    const signature = req.header(SIGNATURE_HEADER);
+    if (!timestamp || !signature || !req.rawBody) {
+      reject("missing signature");
+      return;
+    }
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const signedAt = Number(timestamp);
+    if (!/^\d+$/.test(timestamp) || Math.abs(nowSeconds - signedAt) > maxAgeSeconds) {
+      reject("timestamp outside the allowed window");
+      return;
+    }
+
+    if (!SIGNATURE_PATTERN.test(signature) || !matchesAnySecret(secrets, timestamp, req.rawBody, signature)) {
+      reject("invalid signature");
+      return;
+    }
+
+    const now = Date.now();
+    for (const [key, expiresAt] of seen) {
+      if (expiresAt <= now) seen.delete(key);
+    }
+    const requestKey = createHash("sha256").update(`${timestamp}.`).update(req.rawBody).digest("hex");
+    if (seen.has(requestKey)) {
+      reject("replayed request");
+      return;
+    }
+    // Kept until the timestamp itself falls out of the window
+    seen.set(requestKey, (signedAt + maxAgeSeconds) * 1000 + 1000);
+
+    next();
+  };
+}